@@ -0,0 +1,38 @@
+import { placeDegree } from "./ChordScaleRandomizer";
+
+type PromptDegree = Parameters<typeof placeDegree>[2];
+
+const inMajor = (
+  keyName: string,
+  scaleDegree: PromptDegree,
+  interval: number
+) => placeDegree(keyName, "major", scaleDegree, interval);
+
+test("places degrees of the key around the tonic root", () => {
+  // C major sits on C4; 3 is E
+  expect(inMajor("C", { degree: 3 }, 4)).toBe(64);
+  expect(inMajor("C", { degree: 3, direction: "ABOVE" }, 4)).toBe(64);
+  expect(inMajor("C", { degree: 3, direction: "BELOW" }, 4)).toBe(52);
+
+  // The tonic itself is the root, or the octave above or below it
+  expect(inMajor("C", { degree: 1 }, 0)).toBe(60);
+  expect(inMajor("C", { degree: 1, direction: "ABOVE" }, 0)).toBe(72);
+  expect(inMajor("C", { degree: 1, direction: "BELOW" }, 0)).toBe(48);
+
+  // Roots from G# up are voiced an octave lower, so A major sits on A3
+  expect(inMajor("A", { degree: 3 }, 4)).toBe(61);
+  expect(inMajor("A", { degree: 1, direction: "ABOVE" }, 0)).toBe(69);
+});
+
+test("places chord tones around the root of the chord sounding", () => {
+  // Over vi in C major the chord root is A3 and its 3 is C4
+  const third: PromptDegree = { degree: 3, chord: 6, chordTone: true };
+  expect(inMajor("C", third, 0)).toBe(60);
+  expect(inMajor("C", { ...third, direction: "BELOW" }, 0)).toBe(48);
+  const root: PromptDegree = { degree: 1, chord: 6, chordTone: true };
+  expect(inMajor("C", root, 9)).toBe(57);
+  expect(inMajor("C", { ...root, direction: "ABOVE" }, 9)).toBe(69);
+
+  // A degree of the key over a progression chord still sits on the tonic
+  expect(inMajor("C", { degree: 2, chord: 2 }, 2)).toBe(62);
+});
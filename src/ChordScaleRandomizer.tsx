@@ -1,43 +1,318 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
+import {
+  ChordVoicing,
+  Direction,
+  KEYS,
+  KeyOrder,
+  MODES,
+  MODE_DEFINITIONS,
+  Mode,
+  getAlteredDegree,
+  getChromaticIntervals,
+  getDegreeLabel,
+  getDiatonicChord,
+  getExpectedNote,
+  getExpectedPitchClass,
+  getIntervalLabel,
+  getKeyPitchClass,
+  getNextKey,
+  getRomanNumeral,
+  isMode,
+  parseProgression,
+  spellPitchClass,
+  spellTonic,
+  voiceChord,
+} from "./musicTheory";
+import {
+  SelectionStats,
+  SelectionStrategy,
+  getItemKey,
+  getItemWeight,
+  loadSelectionStats,
+  pickWeighted,
+  recordAttempt,
+  saveSelectionStats,
+} from "./adaptiveSelection";
+import {
+  BUILT_IN_CURRICULUM,
+  BUILT_IN_CURRICULUM_ID,
+  CustomCurriculum,
+  DEFAULT_MIN_PROMPTS,
+  createCustomCurriculumId,
+  isValidCurriculum,
+  isValidCustomCurriculum,
+  resolveLevelDegrees,
+} from "./curricula";
+import { DetectedNoteEntry, addAttempt } from "./practiceHistory";
+import {
+  getMedianResponse,
+  getResponseDistribution,
+  getResponseTimes,
+} from "./responseTimes";
+import {
+  DetectedPitch,
+  estimatePitch,
+  frequencyToNote,
+  getCalibratedNoiseGate,
+  getRms,
+  isPlaybackPartial,
+  midiToFrequency,
+} from "./pitchDetection";
+import {
+  BUFFER_SIZES,
+  DEFAULT_CUSTOM_PROFILE,
+  getMinBufferSize,
+  INPUT_PROFILES,
+  INPUT_PROFILE_IDS,
+  InputProfile,
+  InputProfileId,
+  isInputProfileId,
+  isValidInputProfile,
+  MAX_FREQUENCY,
+  MIN_FREQUENCY,
+} from "./inputProfiles";
+import {
+  MidiAccess,
+  MidiMessageEvent,
+  MidiOutputPort,
+  MidiPort,
+  isMidiSupported,
+  midiNoteToPitch,
+  noteOffMessage,
+  noteOnMessage,
+  parseMidiMessage,
+  requestMidiAccess,
+} from "./midi";
+import {
+  BEATS_PER_BAR,
+  LookaheadScheduler,
+  SCHEDULE_AHEAD_SECONDS,
+  getPromptGrid,
+  isPromptTick,
+  scheduleClick,
+  startLookaheadScheduler,
+} from "./scheduler";
+import {
+  SamplePack,
+  findNearestZone,
+  loadBundledPack,
+  loadSampleFolder,
+  loadSoundFont,
+} from "./samplePack";
+import {
+  MAX_SEQUENCE_LENGTH,
+  MAX_SEQUENCE_STEP,
+  SequenceMotion,
+  pickSequencePath,
+} from "./sequences";
+import ScreenInput, { PadDegree, ScreenInputLayout } from "./ScreenInput";
+import StatsView from "./StatsView";
+import TimbreEditor from "./TimbreEditor";
+import {
+  BuiltInTimbreId,
+  Drone,
+  TimbreDefinition,
+  UserTimbre,
+  UserTimbreId,
+  createTimbreVoice,
+  createUserTimbreId,
+  getTimbreDefinition,
+  isBuiltInTimbreId,
+  isUserTimbreId,
+  isValidUserTimbre,
+  releaseDrone,
+  startDrone,
+} from "./timbres";
+
+type Timbre = BuiltInTimbreId | UserTimbreId | "sampled";
+type DroneMode = "off" | "tonic" | "fifth";
+// "play": the degree is shown and the user plays it; "identify": the degree
+// is heard and the user names it
+type DrillMode = "play" | "identify";
+type NoteStatus =
+  | "pending"
+  | "correct"
+  | "incorrect"
+  | "wrongOctave"
+  | "outOfTune";
+type ProgressionTarget = "key" | "chord";
+
+type InputSource = "microphone" | "midi" | "screen";
+// A fixed number of seconds per prompt, or a tempo and bars per prompt
+type TimingMode = "seconds" | "tempo";
+// What the key rotation counts; bars only apply in tempo mode
+type KeyRotationUnit = "prompts" | "bars";
+
+const KEY_ORDER_LABELS: Record<KeyOrder, string> = {
+  random: "Random",
+  fifths: "Fifths",
+  chromatic: "Chromatic",
+  subset: "Chosen",
+};
+
+// Prompts between key changes when a curriculum level has several keys and
+// rotation is off
+const LEVEL_KEY_ROTATION = 8;
+// Longest key rotation the slider offers, in prompts or bars
+const MAX_KEY_ROTATION = 16;
 
-type Direction = "ABOVE" | "BELOW";
-type Mode = "major" | "minor";
-type Timbre = "piano" | "synthesizer" | "guitar";
+const INPUT_SOURCE_LABELS: Record<InputSource, string> = {
+  microphone: "Microphone",
+  midi: "MIDI",
+  screen: "On-screen",
+};
 
 interface ScaleDegree {
   degree: number;
+  // Semitones away from the mode's diatonic degree, for chromatic prompts
+  alteration?: number;
   direction?: Direction;
+  // Progression mode: diatonic degree of the chord sounding under the prompt
+  chord?: number;
+  // Progression mode graded against the chord: degree is a chord tone
+  // (1, 3, 5 or 7) counted from the chord root instead of the key
+  chordTone?: boolean;
+}
+
+interface PromptResult {
+  degreeLabel: string;
+  // Semitones above the tonic, used to group results by degree
+  interval: number;
+  correct: boolean;
+  // From chord onset to the first correct note, if one was played
+  responseMs: number | null;
+}
+
+interface MicrophoneOptions {
+  // Empty for the browser's default input
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
 }
 
-const KEYS = [
-  "C",
-  "C#/Db",
-  "D",
-  "D#/Eb",
-  "E",
-  "F",
-  "F#/Gb",
-  "G",
-  "G#/Ab",
-  "A",
-  "A#/Bb",
-  "B",
-];
-
-const NOTE_NAMES = [
-  "C",
-  "C#",
-  "D",
-  "D#",
-  "E",
-  "F",
-  "F#",
-  "G",
-  "G#",
-  "A",
-  "A#",
-  "B",
-];
+const getMicrophoneStream = async ({
+  deviceId,
+  ...processing
+}: MicrophoneOptions) => {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { deviceId: { exact: deviceId }, ...processing },
+      });
+    } catch (error) {
+      // The saved device may have been unplugged; use the default input
+      console.warn("Selected input device unavailable:", error);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: processing });
+};
+
+// MIDI note number of the chord root that getChordNotes voices for the chord
+// on a degree of the key (the tonic unless a progression is playing)
+const getRootMidi = (
+  keyName: string,
+  mode: Mode,
+  chordDegree: number = 1
+): number => {
+  const rootIndex = getExpectedPitchClass(keyName, chordDegree, mode);
+
+  // For roots G# and above (G#, A, A#, B), lower by one octave
+  const octaveAdjustment = rootIndex >= 8 ? -12 : 0; // G# is at index 8
+  return 60 + rootIndex + octaveAdjustment; // C4 = MIDI 60
+};
+
+// The note a tonic-relative interval stands for in a prompt: the same
+// register relative to the root (above or below it when the prompt gives a
+// direction) that grading expects
+export const placeDegree = (
+  keyName: string,
+  mode: Mode,
+  scaleDegree: ScaleDegree,
+  interval: number
+): number => {
+  const rootMidi = scaleDegree.chordTone
+    ? getRootMidi(keyName, mode, scaleDegree.chord)
+    : getRootMidi(keyName, mode);
+  const pitchClass = (getKeyPitchClass(keyName) + interval) % 12;
+  const semitonesAbove = (((pitchClass - rootMidi) % 12) + 12) % 12;
+
+  let midi = rootMidi + semitonesAbove;
+  if (scaleDegree.direction === "ABOVE" && semitonesAbove === 0) {
+    midi += 12;
+  } else if (scaleDegree.direction === "BELOW") {
+    midi -= 12;
+  }
+  return midi;
+};
+
+// Degree of the key a prompt asks for; chord tones count up from the root
+// of the chord they belong to
+const getKeyDegree = (scaleDegree: ScaleDegree): number =>
+  scaleDegree.chordTone && scaleDegree.chord
+    ? ((scaleDegree.chord - 1 + scaleDegree.degree - 1) % 7) + 1
+    : scaleDegree.degree;
+
+// Grade a detected note against the prompt, including the register it was
+// played in relative to the chord root that getChordNotes voiced (the tonic
+// root when the prompt is a degree of the key)
+const gradeDetectedPitch = (
+  pitch: DetectedPitch,
+  keyName: string,
+  scaleDegree: ScaleDegree,
+  mode: Mode,
+  octaves: number,
+  // Cents either side of equal temperament to accept, or null for any
+  intonationTolerance: number | null = null
+): { status: NoteStatus; hint?: string } => {
+  const expectedPitchClass = getExpectedPitchClass(
+    keyName,
+    getKeyDegree(scaleDegree),
+    mode,
+    scaleDegree.alteration
+  );
+  if (pitch.pitchClass !== expectedPitchClass) {
+    return { status: "incorrect" };
+  }
+
+  const rootMidi = scaleDegree.chordTone
+    ? getRootMidi(keyName, mode, scaleDegree.chord)
+    : getRootMidi(keyName, mode);
+  const range = octaves * 12;
+
+  // ABOVE must sit above the root, BELOW below it; a plain "1" may be the
+  // root itself or any octave of it inside the window
+  const lowest =
+    scaleDegree.direction === "ABOVE" ? rootMidi + 1 : rootMidi - range;
+  const highest =
+    scaleDegree.direction === "BELOW" ? rootMidi - 1 : rootMidi + range;
+
+  if (pitch.midi < lowest) {
+    return { status: "wrongOctave", hint: "too low" };
+  }
+  if (pitch.midi > highest) {
+    return { status: "wrongOctave", hint: "too high" };
+  }
+
+  if (
+    intonationTolerance !== null &&
+    Math.abs(pitch.cents) > intonationTolerance
+  ) {
+    return {
+      status: "outOfTune",
+      hint: `${Math.round(Math.abs(pitch.cents))}¢ ${
+        pitch.cents > 0 ? "sharp" : "flat"
+      }`,
+    };
+  }
+
+  return { status: "correct" };
+};
+
+// React's types don't know the attribute that turns a file input into a
+// folder picker
+const FOLDER_INPUT_PROPS = {
+  webkitdirectory: "",
+} as React.InputHTMLAttributes<HTMLInputElement>;
 
 const ChordScaleRandomizer: React.FC = () => {
   const [currentScaleDegree, setCurrentScaleDegree] = useState<ScaleDegree>({
@@ -45,7 +320,7 @@ const ChordScaleRandomizer: React.FC = () => {
   });
   const [isPlaying, setIsPlaying] = useState(false);
   // Initialize state with saved values from localStorage
-  const [interval, setInterval] = useState(() => {
+  const [freeInterval, setInterval] = useState(() => {
     const saved = localStorage.getItem("scaleDegreeRandomizer_interval");
     if (saved) {
       const parsed = parseFloat(saved);
@@ -55,8 +330,39 @@ const ChordScaleRandomizer: React.FC = () => {
     }
     return 3.0;
   });
+  const [freeTimingMode, setTimingMode] = useState<TimingMode>(() =>
+    localStorage.getItem("scaleDegreeRandomizer_timingMode") === "tempo"
+      ? "tempo"
+      : "seconds"
+  );
+  const [bpm, setBpm] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_bpm");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 40 && parsed <= 240) {
+        return parsed;
+      }
+    }
+    return 90;
+  });
+  const [barsPerPrompt, setBarsPerPrompt] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_barsPerPrompt");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= 4) {
+        return parsed;
+      }
+    }
+    return 1;
+  });
+  const [metronome, setMetronome] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_metronome") === "true"
+  );
+  const [countIn, setCountIn] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_countIn") === "true"
+  );
 
-  const [selectedKey, setSelectedKey] = useState(() => {
+  const [freeKey, setFreeKey] = useState(() => {
     const saved = localStorage.getItem("scaleDegreeRandomizer_key");
     if (saved && KEYS.includes(saved)) {
       return saved;
@@ -64,13 +370,139 @@ const ChordScaleRandomizer: React.FC = () => {
     return "C";
   });
 
-  const [mode, setMode] = useState<Mode>(() => {
+  // Prompts (or bars) between key changes during a session; 0 keeps the key
+  const [freeKeyRotation, setKeyRotation] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_keyRotation");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 0 && parsed <= MAX_KEY_ROTATION) {
+        return parsed;
+      }
+    }
+    return 0;
+  });
+  const [keyRotationUnit, setKeyRotationUnit] = useState<KeyRotationUnit>(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_keyRotationUnit") === "bars"
+        ? "bars"
+        : "prompts"
+  );
+  const [freeKeyOrder, setKeyOrder] = useState<KeyOrder>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_keyOrder");
+    if (
+      saved === "random" ||
+      saved === "fifths" ||
+      saved === "chromatic" ||
+      saved === "subset"
+    ) {
+      return saved;
+    }
+    return "fifths";
+  });
+  // Keys the "subset" order rotates through
+  const [freeKeySubset, setKeySubset] = useState<string[]>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_keySubset");
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (
+          Array.isArray(parsed) &&
+          parsed.every((key) => KEYS.includes(key))
+        ) {
+          return parsed;
+        }
+      } catch (e) {
+        // Ignore malformed saved value
+      }
+    }
+    return ["C", "F", "G"];
+  });
+
+  // Curricula imported from JSON files; the built-in track isn't stored
+  const [customCurricula, setCustomCurricula] = useState<CustomCurriculum[]>(
+    () => {
+      const saved = localStorage.getItem("scaleDegreeRandomizer_curricula");
+      if (saved) {
+        try {
+          const parsed = JSON.parse(saved);
+          if (Array.isArray(parsed)) {
+            return parsed.filter(isValidCustomCurriculum);
+          }
+        } catch (e) {
+          // Ignore malformed saved value
+        }
+      }
+      return [];
+    }
+  );
+  // The curriculum being followed, or empty for free practice
+  const [curriculumId, setCurriculumId] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_curriculum") ?? ""
+  );
+  const [curriculumLevel, setCurriculumLevel] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_curriculumLevel");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 0) {
+        return parsed;
+      }
+    }
+    return 0;
+  });
+  // The last import error, shown under the curriculum menu
+  const [curriculumStatus, setCurriculumStatus] = useState<string | null>(
+    null
+  );
+  const curriculum =
+    curriculumId === BUILT_IN_CURRICULUM_ID
+      ? BUILT_IN_CURRICULUM
+      : customCurricula.find(({ id }) => id === curriculumId) ?? null;
+  const activeLevel = curriculum?.levels[curriculumLevel] ?? null;
+  const allowedDirections: Direction[] = activeLevel?.directions ?? [
+    "ABOVE",
+    "BELOW",
+  ];
+
+  const [freeMode, setMode] = useState<Mode>(() => {
     const saved = localStorage.getItem("scaleDegreeRandomizer_mode");
-    if (saved && (saved === "major" || saved === "minor")) {
-      return saved as Mode;
+    if (saved && isMode(saved)) {
+      return saved;
     }
     return "major";
   });
+  // The key a level's rotation has reached; it isn't saved
+  const [levelKey, setLevelKey] = useState("");
+
+  // A curriculum level sets up the practice it describes over the free
+  // practice settings, which are kept for when the level is left. Its
+  // degrees and directions are applied as prompts are picked.
+  const mode = activeLevel?.mode ?? freeMode;
+  const timingMode: TimingMode = activeLevel ? "seconds" : freeTimingMode;
+  const interval = activeLevel?.interval ?? freeInterval;
+  const selectedKey = activeLevel
+    ? activeLevel.keys.find((key) => key === levelKey) || activeLevel.keys[0]
+    : freeKey;
+  const setSelectedKey = activeLevel ? setLevelKey : setFreeKey;
+  const keyOrder: KeyOrder = activeLevel ? "subset" : freeKeyOrder;
+  const keySubset = activeLevel?.keys ?? freeKeySubset;
+  const levelKeyRotation =
+    activeLevel && activeLevel.keys.length > 1
+      ? freeKeyRotation || LEVEL_KEY_ROTATION
+      : 0;
+  const keyRotation = activeLevel ? levelKeyRotation : freeKeyRotation;
+  // How long each prompt's chord lasts
+  const promptSeconds =
+    timingMode === "tempo"
+      ? (barsPerPrompt * BEATS_PER_BAR * 60) / bpm
+      : interval;
+  // Keys change between prompts, so a rotation counted in bars takes effect
+  // after the next whole prompt, up to the last one the slider can reach
+  const rotatesByBars = timingMode === "tempo" && keyRotationUnit === "bars";
+  const keyRotationBars =
+    Math.min(
+      Math.ceil(keyRotation / barsPerPrompt),
+      Math.floor(MAX_KEY_ROTATION / barsPerPrompt)
+    ) * barsPerPrompt;
 
   const [volume, setVolume] = useState(() => {
     const saved = localStorage.getItem("scaleDegreeRandomizer_volume");
@@ -83,37 +515,421 @@ const ChordScaleRandomizer: React.FC = () => {
     return 0.3;
   });
   const [isMuted, setIsMuted] = useState(false);
+  // Timbres built in the timbre editor
+  const [userTimbres, setUserTimbres] = useState<UserTimbre[]>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_userTimbres");
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (Array.isArray(parsed)) {
+          return parsed.filter(isValidUserTimbre);
+        }
+      } catch (e) {
+        // Ignore malformed saved value
+      }
+    }
+    return [];
+  });
   const [timbre, setTimbre] = useState<Timbre>(() => {
     const saved = localStorage.getItem("scaleDegreeRandomizer_timbre");
-    if (saved && (saved === "piano" || saved === "synthesizer" || saved === "guitar")) {
+    if (
+      saved &&
+      (isBuiltInTimbreId(saved) ||
+        saved === "sampled" ||
+        (isUserTimbreId(saved) && userTimbres.some(({ id }) => id === saved)))
+    ) {
       return saved as Timbre;
     }
     return "synthesizer";
   });
+  // Timbre being created or edited in the settings menu
+  const [timbreDraft, setTimbreDraft] = useState<UserTimbre | null>(null);
+  const [chordVoicing, setChordVoicing] = useState<ChordVoicing>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_chordVoicing");
+    if (saved === "root" || saved === "inversion" || saved === "drop2") {
+      return saved;
+    }
+    return "root";
+  });
+  const [seventhChords, setSeventhChords] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_seventhChords") === "true"
+  );
+  // Degrees per prompt; 1 prompts single degrees, more prompts a phrase
+  const [sequenceLength, setSequenceLength] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_sequenceLength");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= MAX_SEQUENCE_LENGTH) {
+        return parsed;
+      }
+    }
+    return 1;
+  });
+  const [sequenceMinStep, setSequenceMinStep] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_sequenceMinStep");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= MAX_SEQUENCE_STEP) {
+        return parsed;
+      }
+    }
+    return 1;
+  });
+  const [sequenceMaxStep, setSequenceMaxStep] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_sequenceMaxStep");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= MAX_SEQUENCE_STEP) {
+        return parsed;
+      }
+    }
+    return 2;
+  });
+  const [sequenceMotion, setSequenceMotion] = useState<SequenceMotion>(() =>
+    localStorage.getItem("scaleDegreeRandomizer_sequenceMotion") === "stepwise"
+      ? "stepwise"
+      : "random"
+  );
+  const [drillMode, setDrillMode] = useState<DrillMode>(() =>
+    localStorage.getItem("scaleDegreeRandomizer_drillMode") === "identify"
+      ? "identify"
+      : "play"
+  );
+  // Holds the tonic under the prompts instead of striking a chord each time
+  const [droneMode, setDroneMode] = useState<DroneMode>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_droneMode");
+    if (saved === "off" || saved === "tonic" || saved === "fifth") {
+      return saved;
+    }
+    return "off";
+  });
+  // Doubles the chord root an octave below the voicing
+  const [bassNote, setBassNote] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_bassNote") === "true"
+  );
   const [lastCombination, setLastCombination] = useState<ScaleDegree | null>(
     null
   );
+  const [octaveWindow, setOctaveWindow] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_octaveWindow");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= 3) {
+        return parsed;
+      }
+    }
+    return 1;
+  });
+  // Frequency range, buffer size, hold time and noise gate for the
+  // instrument being played
+  const [inputProfileId, setInputProfileId] = useState<InputProfileId>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_inputProfile");
+    if (saved && isInputProfileId(saved)) {
+      return saved;
+    }
+    return "guitar";
+  });
+  const [customProfile, setCustomProfile] = useState<InputProfile>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_customProfile");
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (isValidInputProfile(parsed)) {
+          return parsed;
+        }
+      } catch (e) {
+        // Ignore malformed saved value
+      }
+    }
+    return DEFAULT_CUSTOM_PROFILE;
+  });
+  const inputProfile =
+    inputProfileId === "custom"
+      ? customProfile
+      : INPUT_PROFILES[inputProfileId];
+  // Microphone to listen on; empty for the browser's default input
+  const [inputDeviceId, setInputDeviceId] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_inputDevice") ?? ""
+  );
+  // Browser voice processing. Echo cancellation keeps the app's own chord
+  // out of the microphone on speakers, at some cost to sustained notes.
+  const [echoCancellation, setEchoCancellation] = useState(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_echoCancellation") !== "false"
+  );
+  const [noiseSuppression, setNoiseSuppression] = useState(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_noiseSuppression") !== "false"
+  );
+  // Ignore detected pitches that match a partial of the chord being played
+  const [rejectChordBleed, setRejectChordBleed] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_rejectBleed") === "true"
+  );
+  // Ignore the microphone for this long after each chord attack
+  const [attackGateMs, setAttackGateMs] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_attackGate");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 0 && parsed <= 500) {
+        return parsed;
+      }
+    }
+    return 0;
+  });
+  // MIDI input grades note-ons directly; the microphone is used whenever no
+  // MIDI device is connected
+  const [inputSource, setInputSource] = useState<InputSource>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_inputSource");
+    if (saved === "midi" || saved === "screen") {
+      return saved;
+    }
+    return "microphone";
+  });
+  // On-screen input: a piano, or a pad of scale degrees
+  const [screenInputLayout, setScreenInputLayout] = useState<ScreenInputLayout>(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_screenInput") === "piano"
+        ? "piano"
+        : "pad"
+  );
+  // Empty to listen to every MIDI input
+  const [midiInputId, setMidiInputId] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_midiInput") ?? ""
+  );
+  // 1-16, or 0 for any channel
+  const [midiChannel, setMidiChannel] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_midiChannel");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 0 && parsed <= 16) {
+        return parsed;
+      }
+    }
+    return 0;
+  });
+  // Send the chord to an external MIDI synth instead of the built-in one,
+  // which is used whenever no MIDI output is connected
+  const [midiOutputEnabled, setMidiOutputEnabled] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_midiOutput") === "true"
+  );
+  // Empty for the first available output
+  const [midiOutputId, setMidiOutputId] = useState(
+    () => localStorage.getItem("scaleDegreeRandomizer_midiOutputPort") ?? ""
+  );
+  const [midiOutputChannel, setMidiOutputChannel] = useState(() => {
+    const saved = localStorage.getItem(
+      "scaleDegreeRandomizer_midiOutputChannel"
+    );
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= 16) {
+        return parsed;
+      }
+    }
+    return 1;
+  });
+  const [midiVelocity, setMidiVelocity] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_midiVelocity");
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 1 && parsed <= 127) {
+        return parsed;
+      }
+    }
+    return 80;
+  });
+  // Noise gate measured from the room, overriding the profile's when set
+  const [calibratedGate, setCalibratedGate] = useState<number | null>(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_calibratedGate");
+    if (saved) {
+      const parsed = parseFloat(saved);
+      if (parsed > 0 && parsed <= 0.5) {
+        return parsed;
+      }
+    }
+    return null;
+  });
+  const microphoneOptions: MicrophoneOptions = {
+    deviceId: inputDeviceId,
+    echoCancellation,
+    noiseSuppression,
+  };
+  // Strict intonation: only notes within this many cents of equal
+  // temperament are accepted
+  const [strictIntonation, setStrictIntonation] = useState(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_strictIntonation") === "true"
+  );
+  const [intonationTolerance, setIntonationTolerance] = useState(() => {
+    const saved = localStorage.getItem(
+      "scaleDegreeRandomizer_intonationTolerance"
+    );
+    if (saved) {
+      const parsed = parseInt(saved, 10);
+      if (parsed >= 5 && parsed <= 50) {
+        return parsed;
+      }
+    }
+    return 20;
+  });
+  // Pitch estimates less clear than this are treated as noise and not graded
+  const [minClarity, setMinClarity] = useState(() => {
+    const saved = localStorage.getItem("scaleDegreeRandomizer_minClarity");
+    if (saved) {
+      const parsed = parseFloat(saved);
+      if (parsed >= 0.5 && parsed <= 0.99) {
+        return parsed;
+      }
+    }
+    return 0.9;
+  });
+  // Semitones above the tonic that may be prompted in addition to the
+  // diatonic degrees; entries that are diatonic in the current mode are ignored
+  const [chromaticIntervals, setChromaticIntervals] = useState<number[]>(
+    () => {
+      const saved = localStorage.getItem("scaleDegreeRandomizer_chromatic");
+      if (saved) {
+        try {
+          const parsed = JSON.parse(saved);
+          if (
+            Array.isArray(parsed) &&
+            parsed.every((i) => Number.isInteger(i) && i > 0 && i < 12)
+          ) {
+            return parsed;
+          }
+        } catch (e) {
+          // Ignore malformed saved value
+        }
+      }
+      return [];
+    }
+  );
+  const [progressionEnabled, setProgressionEnabled] = useState(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_progressionEnabled") ===
+      "true"
+  );
+  const [progression, setProgression] = useState(
+    () =>
+      localStorage.getItem("scaleDegreeRandomizer_progression") || "I-vi-IV-V"
+  );
+  const [progressionTarget, setProgressionTarget] = useState<ProgressionTarget>(
+    () => {
+      const saved = localStorage.getItem(
+        "scaleDegreeRandomizer_progressionTarget"
+      );
+      if (saved && (saved === "key" || saved === "chord")) {
+        return saved as ProgressionTarget;
+      }
+      return "key";
+    }
+  );
+  // The drone stands in for the chord, except under a progression, whose
+  // changing chords are what the prompts are heard against
+  const strikesChords = droneMode === "off" || progressionEnabled;
+  const [selectionStrategy, setSelectionStrategy] = useState<SelectionStrategy>(
+    () => {
+      const saved = localStorage.getItem("scaleDegreeRandomizer_selection");
+      if (saved && (saved === "uniform" || saved === "adaptive")) {
+        return saved as SelectionStrategy;
+      }
+      return "uniform";
+    }
+  );
   const [detectedNote, setDetectedNote] = useState<string>("");
-  const [noteStatus, setNoteStatus] = useState<
-    "pending" | "correct" | "incorrect"
-  >("pending");
+  const [noteStatus, setNoteStatus] = useState<NoteStatus>("pending");
+  // Cents offset of the detected note, shown on the tuner needle
+  const [detectedCents, setDetectedCents] = useState<number | null>(null);
   const [hasFoundCorrect, setHasFoundCorrect] = useState(false);
-  const [results, setResults] = useState<boolean[]>([]); // true = correct, false = incorrect
+  // Interval the user named in the identify drill; the prompt's degree stays
+  // hidden until then
+  const [identifyAnswer, setIdentifyAnswer] = useState<number | null>(null);
+  // Key rotation: the cadence into a new key is sounding
+  const [isAnnouncingKey, setIsAnnouncingKey] = useState(false);
+  // The current sequence prompt and its graded steps, for the display
+  const [sequence, setSequence] = useState<ScaleDegree[] | null>(null);
+  const [sequenceHits, setSequenceHits] = useState<boolean[]>([]);
+  const [results, setResults] = useState<PromptResult[]>([]);
   const [showUserManual, setShowUserManual] = useState(false);
+  const [showStats, setShowStats] = useState(false);
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [midiInputs, setMidiInputs] = useState<{ id: string; name: string }[]>(
+    []
+  );
+  const usesMidi = inputSource === "midi" && midiInputs.length > 0;
+  // The identify drill is answered on screen
+  const needsMicrophone =
+    drillMode === "play" && inputSource !== "screen" && !usesMidi;
+  const [midiOutputs, setMidiOutputs] = useState<
+    { id: string; name: string }[]
+  >([]);
+  const [isMicReady, setIsMicReady] = useState(false);
+  // RMS level of the microphone, for the meter in the settings menu
+  const [inputLevel, setInputLevel] = useState(0);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  // Why the input couldn't be opened or calibrated, shown under the meter
+  const [micStatus, setMicStatus] = useState<string | null>(null);
+  // Instrument played by the sampled timbre; a loaded pack lasts for the
+  // session
+  const [samplePack, setSamplePack] = useState<SamplePack | null>(null);
+  // Loading progress or the last loader error, shown under the timbres
+  const [samplePackStatus, setSamplePackStatus] = useState<string | null>(
+    null
+  );
+  const hasTriedBundledPackRef = useRef(false);
   const hasDetectedFirstNoteRef = useRef(false);
   const everFoundCorrectForCurrentDegree = useRef(false);
 
   // Duration-based note detection to avoid false positives from noise
-  const currentDetectedNoteRef = useRef<string | null>(null);
+  const currentDetectedNoteRef = useRef<number | null>(null); // MIDI note number
   const noteDetectionStartTimeRef = useRef<number | null>(null);
-  const DETECTION_DURATION_MS = 150; // Note must be held for 500ms to register
 
   const audioContext = useRef<AudioContext | null>(null);
-  const intervalId = useRef<number | null>(null);
-  const currentOscillators = useRef<OscillatorNode[]>([]);
+  const schedulerRef = useRef<LookaheadScheduler | null>(null);
+  // Switches the display to a prompt whose chord is booked ahead
+  const promptTimeoutRef = useRef<number | null>(null);
+  const currentOscillators = useRef<AudioScheduledSourceNode[]>([]);
+  // Fundamentals of the chord currently sounding, for bleed rejection
+  const chordFrequenciesRef = useRef<number[]>([]);
+  // MIDI note the current identify prompt plays, for the replay button
+  const identifyTargetRef = useRef<number | null>(null);
+  // Sequence mode: the prompt's steps and whether each one played so far
+  // was hit, read by pitch detection
+  const sequenceRef = useRef<{ steps: ScaleDegree[]; hits: boolean[] } | null>(
+    null
+  );
+  // The drone sounding in drone mode; signature identifies its pitches and
+  // timbre so a change can be crossfaded
+  const droneRef = useRef<
+    (Drone & { signature: string; frequencies: number[] }) | null
+  >(null);
   const lastCombinationRef = useRef<ScaleDegree | null>(null);
+  const progressionStepRef = useRef(0);
+  // Prompts played since the key last rotated
+  const promptsInKeyRef = useRef(0);
+  const selectionStatsRef = useRef<SelectionStats>({});
+  // Wall-clock time the current prompt's chord reached the speakers
+  const chordOnsetTimeRef = useRef<number | null>(null);
+  const correctResponseMsRef = useRef<number | null>(null);
+  // Confirmed notes played during the current prompt, for practice history
+  const detectedNotesRef = useRef<DetectedNoteEntry[]>([]);
+  const isNoteLoggedRef = useRef(false);
   const microphoneStream = useRef<MediaStream | null>(null);
+  const microphoneSource = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Levels collected while calibrating the noise floor
+  const calibrationLevelsRef = useRef<number[] | null>(null);
+  const midiAccessRef = useRef<MidiAccess | null>(null);
+  // Notes of the chord sent to the MIDI output, released by stopChord or
+  // once the chord's duration is up
+  const midiChordRef = useRef<{
+    port: MidiOutputPort;
+    channel: number;
+    notes: number[];
+    // performance.now() time the note-ons were booked for
+    startTimestamp: number;
+  } | null>(null);
+  const midiNoteOffTimeoutRef = useRef<number | null>(null);
   const analyser = useRef<AnalyserNode | null>(null);
   const pitchDetectionId = useRef<number | null>(null);
 
@@ -136,7 +952,9 @@ const ChordScaleRandomizer: React.FC = () => {
         // Toggle play state
         if (!isPlaying) {
           // Initialize microphone if needed
-          const micReady = await initializeMicrophone();
+          const micReady =
+            !currentStateRef.current.needsMicrophone ||
+            (await initializeMicrophone());
           if (micReady) {
             // Starting - reset all detection and results
             setResults([]);
@@ -147,12 +965,13 @@ const ChordScaleRandomizer: React.FC = () => {
             noteDetectionStartTimeRef.current = null;
             setHasFoundCorrect(false);
             setDetectedNote("");
+            setDetectedCents(null);
             setNoteStatus("pending");
             setIsPlaying(true);
           } else {
             // Microphone access denied or not available
             alert(
-              "Microphone access is required to use the Scale Degree Randomizer. Please grant microphone permission and try again."
+              "Microphone access is required to use the Scale Degree Randomizer. Please grant microphone permission and try again, or switch the input source to On-screen in the settings menu."
             );
             return;
           }
@@ -219,18 +1038,93 @@ const ChordScaleRandomizer: React.FC = () => {
     };
   }, []);
 
+  // List input devices while the settings menu is open. Device names are
+  // only available once microphone permission has been granted.
+  useEffect(() => {
+    if (!showSettingsMenu || !navigator.mediaDevices?.enumerateDevices) return;
+
+    const refreshDevices = () => {
+      navigator.mediaDevices
+        .enumerateDevices()
+        .then((devices) =>
+          setInputDevices(
+            devices.filter((device) => device.kind === "audioinput")
+          )
+        )
+        .catch((error) => console.error("Failed to list devices:", error));
+    };
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        refreshDevices
+      );
+    };
+  }, [showSettingsMenu, isMicReady]);
+
+  // Drive the input meter (and collect calibration levels) while the
+  // settings menu is open
+  useEffect(() => {
+    if (!showSettingsMenu || !isMicReady) return;
+
+    let frameId: number;
+    const measure = () => {
+      if (analyser.current) {
+        const buffer = new Float32Array(analyser.current.fftSize);
+        analyser.current.getFloatTimeDomainData(buffer);
+        const level = getRms(buffer);
+        setInputLevel(level);
+        calibrationLevelsRef.current?.push(level);
+      }
+      frameId = requestAnimationFrame(measure);
+    };
+    measure();
+    return () => cancelAnimationFrame(frameId);
+  }, [showSettingsMenu, isMicReady]);
+
   // Save settings to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem("scaleDegreeRandomizer_interval", interval.toString());
-  }, [interval]);
+    localStorage.setItem(
+      "scaleDegreeRandomizer_interval",
+      freeInterval.toString()
+    );
+  }, [freeInterval]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_timingMode", freeTimingMode);
+  }, [freeTimingMode]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_bpm", bpm.toString());
+  }, [bpm]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_barsPerPrompt",
+      barsPerPrompt.toString()
+    );
+  }, [barsPerPrompt]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_metronome",
+      metronome.toString()
+    );
+  }, [metronome]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_countIn", countIn.toString());
+  }, [countIn]);
 
   useEffect(() => {
-    localStorage.setItem("scaleDegreeRandomizer_key", selectedKey);
-  }, [selectedKey]);
+    localStorage.setItem("scaleDegreeRandomizer_key", freeKey);
+  }, [freeKey]);
 
   useEffect(() => {
-    localStorage.setItem("scaleDegreeRandomizer_mode", mode);
-  }, [mode]);
+    localStorage.setItem("scaleDegreeRandomizer_mode", freeMode);
+  }, [freeMode]);
 
   useEffect(() => {
     localStorage.setItem("scaleDegreeRandomizer_volume", volume.toString());
@@ -240,393 +1134,838 @@ const ChordScaleRandomizer: React.FC = () => {
     localStorage.setItem("scaleDegreeRandomizer_timbre", timbre);
   }, [timbre]);
 
-  const getExpectedNote = (
-    keyName: string,
-    scaleDegree: number,
-    mode: Mode
-  ): string => {
-    const keyIndex = KEYS.findIndex((key) => key === keyName);
-    const majorIntervals = [0, 2, 4, 5, 7, 9, 11];
-    const minorIntervals = [0, 2, 3, 5, 7, 8, 10];
-    const intervals = mode === "major" ? majorIntervals : minorIntervals;
-
-    const noteIndex = (keyIndex + intervals[scaleDegree - 1]) % 12;
-    const expectedNote = NOTE_NAMES[noteIndex];
-
-    return expectedNote;
-  };
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_chordVoicing", chordVoicing);
+  }, [chordVoicing]);
 
-  const noteToScaleDegree = (
-    noteName: string,
-    keyName: string,
-    mode: Mode
-  ): string => {
-    const noteIndex = NOTE_NAMES.findIndex((note) => note === noteName);
-    const keyIndex = KEYS.findIndex((key) => key === keyName);
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_droneMode", droneMode);
+  }, [droneMode]);
 
-    if (noteIndex === -1 || keyIndex === -1) return "?";
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_drillMode", drillMode);
+  }, [drillMode]);
 
-    // Calculate the interval from the key
-    let interval = (noteIndex - keyIndex + 12) % 12;
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_sequenceLength",
+      sequenceLength.toString()
+    );
+  }, [sequenceLength]);
 
-    if (mode === "major") {
-      const majorIntervals = [0, 2, 4, 5, 7, 9, 11];
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_sequenceMinStep",
+      sequenceMinStep.toString()
+    );
+  }, [sequenceMinStep]);
 
-      // Find exact match first
-      const degreeIndex = majorIntervals.findIndex((i) => i === interval);
-      if (degreeIndex !== -1) {
-        return (degreeIndex + 1).toString();
-      }
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_sequenceMaxStep",
+      sequenceMaxStep.toString()
+    );
+  }, [sequenceMaxStep]);
 
-      // Check for chromatic alterations relative to major scale
-      for (let i = 0; i < majorIntervals.length; i++) {
-        const naturalInterval = majorIntervals[i];
-        const degree = i + 1;
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_sequenceMotion",
+      sequenceMotion
+    );
+  }, [sequenceMotion]);
 
-        if (interval === (naturalInterval + 1) % 12) {
-          return `#${degree}`;
-        } else if (interval === (naturalInterval - 1 + 12) % 12) {
-          return `♭${degree}`;
-        }
-      }
-    } else {
-      // For minor mode, we want to show the scale degrees relative to the natural minor scale
-      // Natural minor intervals: 1, 2, b3, 4, 5, b6, b7
-      const minorIntervals = [0, 2, 3, 5, 7, 8, 10];
-      const minorDegreeNames = ["1", "2", "♭3", "4", "5", "♭6", "♭7"];
-
-      // Find exact match first
-      const degreeIndex = minorIntervals.findIndex((i) => i === interval);
-      if (degreeIndex !== -1) {
-        return minorDegreeNames[degreeIndex];
-      }
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_seventhChords",
+      seventhChords.toString()
+    );
+  }, [seventhChords]);
 
-      // Check for chromatic alterations relative to natural minor scale
-      // Special handling for interval 11 (major 7th) - this should be "7", not "♭1"
-      if (interval === 11) {
-        return "7";
-      }
-      
-      for (let i = 0; i < minorIntervals.length; i++) {
-        const naturalInterval = minorIntervals[i];
-        const degreeName = minorDegreeNames[i];
-
-        if (interval === (naturalInterval + 1) % 12) {
-          // Sharp version of the minor scale degree
-          if (degreeName.startsWith("♭")) {
-            // If it's already flat (like ♭3), sharp makes it natural (3)
-            return degreeName.substring(1);
-          } else {
-            return `#${degreeName}`;
-          }
-        } else if (interval === (naturalInterval - 1 + 12) % 12) {
-          // Flat version of the minor scale degree
-          if (!degreeName.startsWith("♭")) {
-            return `♭${degreeName}`;
-          }
-        }
-      }
-    }
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_bassNote", bassNote.toString());
+  }, [bassNote]);
 
-    return "?";
-  };
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_userTimbres",
+      JSON.stringify(userTimbres)
+    );
+  }, [userTimbres]);
 
-  const getFrequency = (keyName: string, mode: Mode): number[] => {
-    const keyIndex = KEYS.findIndex((key) => key === keyName);
-    const baseFrequency = 261.63; // C4
-    const semitoneRatio = Math.pow(2, 1 / 12);
-
-    // For keys G# and above (G#, A, A#, B), lower by one octave
-    const octaveAdjustment = keyIndex >= 8 ? -12 : 0; // G# is at index 8
-    const adjustedKeyIndex = keyIndex + octaveAdjustment;
-
-    // Always play the root chord of the selected key
-    const rootFreq = baseFrequency * Math.pow(semitoneRatio, adjustedKeyIndex);
-
-    if (mode === "major") {
-      // Major triad: root, major third, perfect fifth
-      const thirdFreq =
-        baseFrequency * Math.pow(semitoneRatio, adjustedKeyIndex + 4); // Major third (4 semitones)
-      const fifthFreq =
-        baseFrequency * Math.pow(semitoneRatio, adjustedKeyIndex + 7); // Perfect fifth (7 semitones)
-      return [rootFreq, thirdFreq, fifthFreq];
-    } else {
-      // Minor triad: root, minor third, perfect fifth
-      const thirdFreq =
-        baseFrequency * Math.pow(semitoneRatio, adjustedKeyIndex + 3); // Minor third (3 semitones)
-      const fifthFreq =
-        baseFrequency * Math.pow(semitoneRatio, adjustedKeyIndex + 7); // Perfect fifth (7 semitones)
-      return [rootFreq, thirdFreq, fifthFreq];
+  // The sampled timbre starts out with the bundled pack, if there is one
+  useEffect(() => {
+    if (
+      timbre !== "sampled" ||
+      samplePack ||
+      hasTriedBundledPackRef.current ||
+      !audioContext.current
+    ) {
+      return;
     }
-  };
-
-  const stopChord = () => {
-    // Stop any currently playing oscillators immediately
-    currentOscillators.current.forEach((osc) => {
-      try {
-        osc.stop();
-      } catch (e) {
-        // Oscillator may already be stopped
-      }
-    });
-    currentOscillators.current = [];
-  };
+    hasTriedBundledPackRef.current = true;
+    setSamplePackStatus("Loading bundled samples...");
+    loadBundledPack(audioContext.current)
+      .then((pack) => {
+        // A pack the user loaded meanwhile takes precedence
+        setSamplePack((current) => current ?? pack);
+        setSamplePackStatus(
+          pack ? null : "No bundled samples. Load a folder or SoundFont."
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load bundled samples:", error);
+        setSamplePackStatus("The bundled samples could not be loaded.");
+      });
+  }, [timbre, samplePack]);
 
-  const playChord = (scaleDegree: ScaleDegree, duration: number = interval) => {
-    if (!audioContext.current || isMuted) return;
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_chromatic",
+      JSON.stringify(chromaticIntervals)
+    );
+  }, [chromaticIntervals]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_keyRotation",
+      freeKeyRotation.toString()
+    );
+  }, [freeKeyRotation]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_keyRotationUnit",
+      keyRotationUnit
+    );
+  }, [keyRotationUnit]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_keyOrder", freeKeyOrder);
+  }, [freeKeyOrder]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_curricula",
+      JSON.stringify(customCurricula)
+    );
+  }, [customCurricula]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_curriculum", curriculumId);
+  }, [curriculumId]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_curriculumLevel",
+      curriculumLevel.toString()
+    );
+  }, [curriculumLevel]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_keySubset",
+      JSON.stringify(freeKeySubset)
+    );
+  }, [freeKeySubset]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_octaveWindow",
+      octaveWindow.toString()
+    );
+  }, [octaveWindow]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_inputProfile", inputProfileId);
+  }, [inputProfileId]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_customProfile",
+      JSON.stringify(customProfile)
+    );
+  }, [customProfile]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_inputDevice", inputDeviceId);
+  }, [inputDeviceId]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_inputSource", inputSource);
+  }, [inputSource]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_screenInput",
+      screenInputLayout
+    );
+  }, [screenInputLayout]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_midiInput", midiInputId);
+  }, [midiInputId]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_midiChannel",
+      midiChannel.toString()
+    );
+  }, [midiChannel]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_midiOutput",
+      midiOutputEnabled.toString()
+    );
+  }, [midiOutputEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_midiOutputPort", midiOutputId);
+  }, [midiOutputId]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_midiOutputChannel",
+      midiOutputChannel.toString()
+    );
+  }, [midiOutputChannel]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_midiVelocity",
+      midiVelocity.toString()
+    );
+  }, [midiVelocity]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_echoCancellation",
+      echoCancellation.toString()
+    );
+  }, [echoCancellation]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_noiseSuppression",
+      noiseSuppression.toString()
+    );
+  }, [noiseSuppression]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_rejectBleed",
+      rejectChordBleed.toString()
+    );
+  }, [rejectChordBleed]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_attackGate",
+      attackGateMs.toString()
+    );
+  }, [attackGateMs]);
+
+  useEffect(() => {
+    if (calibratedGate === null) {
+      localStorage.removeItem("scaleDegreeRandomizer_calibratedGate");
+    } else {
+      localStorage.setItem(
+        "scaleDegreeRandomizer_calibratedGate",
+        calibratedGate.toString()
+      );
+    }
+  }, [calibratedGate]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_strictIntonation",
+      strictIntonation.toString()
+    );
+  }, [strictIntonation]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_intonationTolerance",
+      intonationTolerance.toString()
+    );
+  }, [intonationTolerance]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_minClarity",
+      minClarity.toString()
+    );
+  }, [minClarity]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_selection", selectionStrategy);
+  }, [selectionStrategy]);
+
+  // Per-item statistics persist across sessions for adaptive selection
+  useEffect(() => {
+    selectionStatsRef.current = loadSelectionStats();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_progressionEnabled",
+      progressionEnabled.toString()
+    );
+  }, [progressionEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem("scaleDegreeRandomizer_progression", progression);
+  }, [progression]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "scaleDegreeRandomizer_progressionTarget",
+      progressionTarget
+    );
+  }, [progressionTarget]);
+
+  // MIDI notes of the chord on a degree of the key, in the chosen voicing.
+  // A random inversion is drawn on every call.
+  const getChordNotes = (
+    keyName: string,
+    mode: Mode,
+    chordDegree: number = 1
+  ): number[] => {
+    const rootMidi = getRootMidi(keyName, mode, chordDegree);
+
+    // The diatonic triad or seventh chord on the chord degree: the root chord
+    // of the selected key unless a progression is playing. Its quality comes
+    // from the mode (major, minor or diminished for Locrian).
+    const chordTones = getDiatonicChord(
+      mode,
+      chordDegree,
+      seventhChords ? 4 : 3
+    );
+    const inversion = Math.floor(Math.random() * chordTones.length);
+    const notes = voiceChord(chordTones, chordVoicing, inversion).map(
+      (semitones) => rootMidi + semitones
+    );
+
+    // A separate bass note keeps the root in the bass under any inversion
+    return bassNote ? [rootMidi - 12, ...notes] : notes;
+  };
+
+  // Stop the sounding chord, immediately or at an audio clock time (when the
+  // next chord is booked ahead)
+  const stopChord = (when?: number) => {
+    currentOscillators.current.forEach((osc) => {
+      try {
+        osc.stop(when);
+      } catch (e) {
+        // Oscillator may already be stopped
+      }
+    });
+    currentOscillators.current = [];
+    chordFrequenciesRef.current = [];
+    releaseMidiChord(
+      when === undefined || !audioContext.current
+        ? undefined
+        : performance.now() + (when - audioContext.current.currentTime) * 1000
+    );
+  };
+
+  // timestamp is on the performance.now() clock; a chord booked ahead is
+  // never released before its note-ons go out
+  const releaseMidiChord = (timestamp: number = performance.now()) => {
+    if (midiNoteOffTimeoutRef.current !== null) {
+      clearTimeout(midiNoteOffTimeoutRef.current);
+      midiNoteOffTimeoutRef.current = null;
+    }
+    if (midiChordRef.current) {
+      const { port, channel, notes, startTimestamp } = midiChordRef.current;
+      const releaseTimestamp = Math.max(timestamp, startTimestamp);
+      notes.forEach((note) =>
+        port.send(noteOffMessage(note, channel), releaseTimestamp)
+      );
+      midiChordRef.current = null;
+    }
+  };
+
+  // The chosen MIDI output, or the first one if it has been unplugged; null
+  // when MIDI output is off or nothing is connected
+  const getMidiOutputPort = (): MidiOutputPort | null => {
+    const { enabled, portId } = currentStateRef.current.midiOutput;
+    const access = midiAccessRef.current;
+    if (!enabled || !access) return null;
+    const connected = Array.from(access.outputs.values()).filter(
+      (port) => port.state === "connected"
+    );
+    return connected.find((port) => port.id === portId) ?? connected[0] ?? null;
+  };
+
+  // Send the chord to an external synth, with the same voicing the built-in
+  // synth would play, for the given duration in seconds
+  const playMidiChord = (
+    port: MidiOutputPort,
+    notes: number[],
+    duration: number,
+    startTimestamp: number
+  ) => {
+    const { channel, velocity } = currentStateRef.current.midiOutput;
+    notes.forEach((note) =>
+      port.send(noteOnMessage(note, velocity, channel), startTimestamp)
+    );
+    midiChordRef.current = { port, channel, notes, startTimestamp };
+    const endTimestamp = startTimestamp + duration * 1000;
+    midiNoteOffTimeoutRef.current = window.setTimeout(
+      () => releaseMidiChord(endTimestamp),
+      endTimestamp - performance.now()
+    );
+  };
+
+  // Plays the tonic chord in a timbre from the editor, always on the built-in
+  // synth
+  const previewTimbre = (definition: TimbreDefinition) => {
+    if (!audioContext.current || isMuted) return;
 
-    // Stop any currently playing oscillators
     stopChord();
+    if (audioContext.current.state === "suspended") {
+      audioContext.current.resume();
+    }
+
+    const masterGain = audioContext.current.createGain();
+    masterGain.connect(audioContext.current.destination);
+    masterGain.gain.setValueAtTime(
+      volume * 0.45,
+      audioContext.current.currentTime
+    );
+
+    const currentTime = audioContext.current.currentTime;
+    getChordNotes(selectedKey, mode, 1).forEach((note) => {
+      currentOscillators.current.push(
+        ...createTimbreVoice(
+          audioContext.current!,
+          definition,
+          midiToFrequency(note),
+          masterGain,
+          currentTime,
+          currentTime + definition.envelope.attack + definition.envelope.decay
+        )
+      );
+    });
+  };
+
+  const saveTimbreDraft = () => {
+    if (!timbreDraft) return;
+    const draft = { ...timbreDraft, name: timbreDraft.name.trim() };
+    setUserTimbres((current) =>
+      current.some(({ id }) => id === draft.id)
+        ? current.map((userTimbre) =>
+            userTimbre.id === draft.id ? draft : userTimbre
+          )
+        : [...current, draft]
+    );
+    setTimbre(draft.id);
+    setTimbreDraft(null);
+    setIsPlaying(false);
+  };
+
+  const deleteUserTimbre = (id: UserTimbreId) => {
+    setUserTimbres((current) =>
+      current.filter((userTimbre) => userTimbre.id !== id)
+    );
+    if (timbre === id) {
+      setTimbre("synthesizer");
+      setIsPlaying(false);
+    }
+    setTimbreDraft(null);
+  };
+
+  // Plays MIDI notes at an audio clock time (now if omitted) and returns the
+  // wall-clock time they will be heard, or null when nothing plays
+  const playNotes = (
+    notes: number[],
+    duration: number,
+    startTime?: number
+  ): number | null => {
+    if (!audioContext.current || isMuted) return null;
+
+    const currentTime = Math.max(
+      startTime ?? 0,
+      audioContext.current.currentTime
+    );
+    const delayMs = (currentTime - audioContext.current.currentTime) * 1000;
+
+    // The chord sounding now ends where this one starts
+    stopChord(startTime === undefined ? undefined : currentTime);
 
     // Resume audio context if suspended (required for user interaction)
     if (audioContext.current.state === "suspended") {
       audioContext.current.resume();
     }
 
-    const frequencies = getFrequency(selectedKey, mode);
+    const frequencies = notes.map(midiToFrequency);
+    chordFrequenciesRef.current = frequencies;
+
+    // An external synth replaces the built-in one
+    const midiOutputPort = getMidiOutputPort();
+    if (midiOutputPort) {
+      playMidiChord(
+        midiOutputPort,
+        notes,
+        duration,
+        performance.now() + delayMs
+      );
+      return Date.now() + delayMs;
+    }
+
     const masterGain = audioContext.current.createGain();
     masterGain.connect(audioContext.current.destination);
 
     // Balanced master volume to prevent clipping while maintaining good volume
     const masterVolume = volume * 0.45; // Balanced volume for good listening level
-    masterGain.gain.setValueAtTime(masterVolume, audioContext.current.currentTime);
+    masterGain.gain.setValueAtTime(masterVolume, currentTime);
 
-    const currentTime = audioContext.current.currentTime;
     const releaseTime = duration;
 
-    if (timbre === "piano") {
-      // Piano timbre - bell-like with natural decay
-      frequencies.forEach((freq) => {
-        const osc1 = audioContext.current!.createOscillator();
-        const osc2 = audioContext.current!.createOscillator();
-        const osc3 = audioContext.current!.createOscillator();
-
-        osc1.type = "sine";
-        osc2.type = "sine";
-        osc3.type = "sine";
-
-        osc1.frequency.setValueAtTime(freq, currentTime);
-        osc2.frequency.setValueAtTime(freq * 2, currentTime); // Octave
-        osc3.frequency.setValueAtTime(freq * 4, currentTime); // Two octaves
-
-        const gain1 = audioContext.current!.createGain();
-        const gain2 = audioContext.current!.createGain();
-        const gain3 = audioContext.current!.createGain();
-
-        const baseLevel1 = 0.3;
-        const baseLevel2 = 0.08;
-        const baseLevel3 = 0.02;
-
-        // Quick attack for piano-like sound
-        const attackTime = 0.02;
-
-        // Natural decay time - same for all interval durations
-        const decayTime = 2.5; // Piano-like natural decay
-
-        gain1.gain.setValueAtTime(0, currentTime);
-        gain2.gain.setValueAtTime(0, currentTime);
-        gain3.gain.setValueAtTime(0, currentTime);
-
-        // Attack to peak
-        gain1.gain.linearRampToValueAtTime(baseLevel1, currentTime + attackTime);
-        gain2.gain.linearRampToValueAtTime(baseLevel2, currentTime + attackTime);
-        gain3.gain.linearRampToValueAtTime(baseLevel3, currentTime + attackTime);
-
-        // Natural exponential decay from peak
-        gain1.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain2.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain3.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-
-        osc1.connect(gain1);
-        osc2.connect(gain2);
-        osc3.connect(gain3);
-
-        gain1.connect(masterGain);
-        gain2.connect(masterGain);
-        gain3.connect(masterGain);
-
-        [osc1, osc2, osc3].forEach((osc) => {
-          osc.start(currentTime);
-          osc.stop(currentTime + releaseTime);
-          currentOscillators.current.push(osc);
-        });
-      });
-    } else if (timbre === "synthesizer") {
-      // Synthesizer timbre - rich and full with natural decay
+    const sampleZones = timbre === "sampled" ? samplePack?.zones : undefined;
+
+    if (sampleZones && sampleZones.length > 0) {
+      // Sampled timbre - nearest recording, resampled to each chord note
       frequencies.forEach((freq) => {
-        const osc1 = audioContext.current!.createOscillator();
-        const osc2 = audioContext.current!.createOscillator();
-        const osc3 = audioContext.current!.createOscillator();
-        const osc4 = audioContext.current!.createOscillator();
-
-        osc1.type = "sawtooth";
-        osc2.type = "square";
-        osc3.type = "sine";
-        osc4.type = "triangle";
-
-        osc1.frequency.setValueAtTime(freq, currentTime);
-        osc2.frequency.setValueAtTime(freq, currentTime);
-        osc3.frequency.setValueAtTime(freq * 2, currentTime);
-        osc4.frequency.setValueAtTime(freq * 0.5, currentTime);
-
-        const gain1 = audioContext.current!.createGain();
-        const gain2 = audioContext.current!.createGain();
-        const gain3 = audioContext.current!.createGain();
-        const gain4 = audioContext.current!.createGain();
-
-        const baseLevel1 = 0.15;
-        const baseLevel2 = 0.08;
-        const baseLevel3 = 0.12;
-        const baseLevel4 = 0.10;
-
-        const attackTime = 0.05;
-
-        // Natural decay time - same for all interval durations
-        const decayTime = 3.0; // Synth-like natural decay (slightly longer than piano)
-
-        gain1.gain.setValueAtTime(0, currentTime);
-        gain2.gain.setValueAtTime(0, currentTime);
-        gain3.gain.setValueAtTime(0, currentTime);
-        gain4.gain.setValueAtTime(0, currentTime);
-
-        // Attack to peak
-        gain1.gain.linearRampToValueAtTime(baseLevel1, currentTime + attackTime);
-        gain2.gain.linearRampToValueAtTime(baseLevel2, currentTime + attackTime);
-        gain3.gain.linearRampToValueAtTime(baseLevel3, currentTime + attackTime);
-        gain4.gain.linearRampToValueAtTime(baseLevel4, currentTime + attackTime);
-
-        // Natural exponential decay from peak
-        gain1.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain2.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain3.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain4.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-
-        const filter = audioContext.current!.createBiquadFilter();
-        filter.type = "lowpass";
-        filter.frequency.setValueAtTime(2000, currentTime);
-        filter.Q.setValueAtTime(1, currentTime);
-
-        osc1.connect(gain1);
-        osc2.connect(gain2);
-        osc3.connect(gain3);
-        osc4.connect(gain4);
-
-        gain1.connect(filter);
-        gain2.connect(filter);
-        gain3.connect(filter);
-        gain4.connect(filter);
-
-        filter.connect(masterGain);
-
-        [osc1, osc2, osc3, osc4].forEach((osc) => {
-          osc.start(currentTime);
-          osc.stop(currentTime + releaseTime);
-          currentOscillators.current.push(osc);
-        });
+        const { zone, playbackRate } = findNearestZone(sampleZones, freq);
+        const source = audioContext.current!.createBufferSource();
+        source.buffer = zone.buffer;
+        source.playbackRate.setValueAtTime(playbackRate, currentTime);
+        if (zone.loop) {
+          // Sustains notes longer than the recording
+          source.loop = true;
+          source.loopStart = zone.loop.start;
+          source.loopEnd = zone.loop.end;
+        }
+
+        const gain = audioContext.current!.createGain();
+        const level = 0.6;
+        const fadeTime = Math.min(0.1, releaseTime / 2);
+
+        // Short fade in and out so starts and cut-offs don't click
+        gain.gain.setValueAtTime(0, currentTime);
+        gain.gain.linearRampToValueAtTime(level, currentTime + 0.005);
+        gain.gain.setValueAtTime(level, currentTime + releaseTime - fadeTime);
+        gain.gain.linearRampToValueAtTime(0, currentTime + releaseTime);
+
+        source.connect(gain);
+        gain.connect(masterGain);
+
+        source.start(currentTime);
+        source.stop(currentTime + releaseTime);
+        currentOscillators.current.push(source);
       });
-    } else if (timbre === "guitar") {
-      // Guitar timbre - plucked string sound with natural decay
+    } else {
+      const definition = getTimbreDefinition(timbre, userTimbres);
       frequencies.forEach((freq) => {
-        const osc1 = audioContext.current!.createOscillator();
-        const osc2 = audioContext.current!.createOscillator();
-        const osc3 = audioContext.current!.createOscillator();
-        const osc4 = audioContext.current!.createOscillator();
-
-        osc1.type = "triangle";
-        osc2.type = "sine";
-        osc3.type = "sine";
-        osc4.type = "sine";
-
-        osc1.frequency.setValueAtTime(freq, currentTime);
-        osc2.frequency.setValueAtTime(freq * 2, currentTime); // 2nd harmonic
-        osc3.frequency.setValueAtTime(freq * 3, currentTime); // 3rd harmonic
-        osc4.frequency.setValueAtTime(freq * 5, currentTime); // 5th harmonic
-
-        const gain1 = audioContext.current!.createGain();
-        const gain2 = audioContext.current!.createGain();
-        const gain3 = audioContext.current!.createGain();
-        const gain4 = audioContext.current!.createGain();
-
-        const baseLevel1 = 0.25;
-        const baseLevel2 = 0.15;
-        const baseLevel3 = 0.08;
-        const baseLevel4 = 0.04;
-
-        // Very quick attack for plucked sound
-        const attackTime = 0.01;
-
-        // Natural decay time - same for all interval durations
-        const decayTime = 2.8; // Guitar-like natural decay
-
-        gain1.gain.setValueAtTime(0, currentTime);
-        gain2.gain.setValueAtTime(0, currentTime);
-        gain3.gain.setValueAtTime(0, currentTime);
-        gain4.gain.setValueAtTime(0, currentTime);
-
-        // Attack to peak
-        gain1.gain.linearRampToValueAtTime(baseLevel1, currentTime + attackTime);
-        gain2.gain.linearRampToValueAtTime(baseLevel2, currentTime + attackTime);
-        gain3.gain.linearRampToValueAtTime(baseLevel3, currentTime + attackTime);
-        gain4.gain.linearRampToValueAtTime(baseLevel4, currentTime + attackTime);
-
-        // Natural exponential decay from peak
-        gain1.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain2.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain3.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-        gain4.gain.exponentialRampToValueAtTime(0.01, currentTime + attackTime + decayTime);
-
-        // Add slight filtering for guitar-like tone
-        const filter = audioContext.current!.createBiquadFilter();
-        filter.type = "lowpass";
-        filter.frequency.setValueAtTime(3500, currentTime);
-        filter.Q.setValueAtTime(0.7, currentTime);
-
-        osc1.connect(gain1);
-        osc2.connect(gain2);
-        osc3.connect(gain3);
-        osc4.connect(gain4);
-
-        gain1.connect(filter);
-        gain2.connect(filter);
-        gain3.connect(filter);
-        gain4.connect(filter);
-
-        filter.connect(masterGain);
-
-        [osc1, osc2, osc3, osc4].forEach((osc) => {
-          osc.start(currentTime);
-          osc.stop(currentTime + releaseTime);
-          currentOscillators.current.push(osc);
-        });
+        currentOscillators.current.push(
+          ...createTimbreVoice(
+            audioContext.current!,
+            definition,
+            freq,
+            masterGain,
+            currentTime,
+            currentTime + releaseTime
+          )
+        );
       });
     }
+
+    // The chord is heard once it has passed through the output pipeline
+    return (
+      Date.now() + delayMs + (audioContext.current.outputLatency || 0) * 1000
+    );
+  };
+
+  const playChord = (
+    scaleDegree: ScaleDegree,
+    duration: number = promptSeconds,
+    startTime?: number
+  ): number | null =>
+    playNotes(
+      getChordNotes(selectedKey, mode, scaleDegree.chord),
+      duration,
+      startTime
+    );
+
+  // Identify drill: the chord sets up the key for the first half of the
+  // prompt (the drone already does that when it is on), then the target note
+  // sounds. Returns when the target note is heard.
+  const playIdentifyPrompt = (
+    scaleDegree: ScaleDegree,
+    targetMidi: number,
+    startTime?: number
+  ): number | null => {
+    if (!strikesChords) {
+      return playNotes([targetMidi], promptSeconds, startTime);
+    }
+    const time = startTime ?? audioContext.current?.currentTime ?? 0;
+    playChord(scaleDegree, promptSeconds / 2, time);
+    return playNotes([targetMidi], promptSeconds / 2, time + promptSeconds / 2);
   };
 
   // Pitch detection functions
-  const frequencyToNote = (frequency: number): string => {
-    const A4 = 440;
+  // Use refs to store current values for pitch detection
+  const currentStateRef = useRef({
+    selectedKey,
+    currentScaleDegree,
+    mode,
+    octaveWindow,
+    minClarity,
+    intonationTolerance: strictIntonation ? intonationTolerance : null,
+    inputProfile,
+    noiseGate: calibratedGate ?? inputProfile.noiseGate,
+    microphone: microphoneOptions,
+    rejectChordBleed,
+    attackGateMs,
+    needsMicrophone,
+    isAnnouncingKey,
+    midiOutput: {
+      enabled: midiOutputEnabled,
+      portId: midiOutputId,
+      channel: midiOutputChannel,
+      velocity: midiVelocity,
+    },
+  });
 
-    if (frequency <= 0) return "";
+  // Update ref whenever state changes
+  useEffect(() => {
+    currentStateRef.current = {
+      selectedKey,
+      currentScaleDegree,
+      mode,
+      octaveWindow,
+      minClarity,
+      intonationTolerance: strictIntonation ? intonationTolerance : null,
+      inputProfile,
+      noiseGate: calibratedGate ?? inputProfile.noiseGate,
+      microphone: {
+        deviceId: inputDeviceId,
+        echoCancellation,
+        noiseSuppression,
+      },
+      rejectChordBleed,
+      attackGateMs,
+      needsMicrophone,
+      isAnnouncingKey,
+      midiOutput: {
+        enabled: midiOutputEnabled,
+        portId: midiOutputId,
+        channel: midiOutputChannel,
+        velocity: midiVelocity,
+      },
+    };
+  }, [
+    selectedKey,
+    currentScaleDegree,
+    mode,
+    octaveWindow,
+    minClarity,
+    strictIntonation,
+    intonationTolerance,
+    inputProfile,
+    calibratedGate,
+    inputDeviceId,
+    echoCancellation,
+    noiseSuppression,
+    rejectChordBleed,
+    attackGateMs,
+    needsMicrophone,
+    isAnnouncingKey,
+    midiOutputEnabled,
+    midiOutputId,
+    midiOutputChannel,
+    midiVelocity,
+  ]);
+
+  // Resize the analyser buffer when the profile changes mid-session
+  useEffect(() => {
+    if (analyser.current) {
+      analyser.current.fftSize = inputProfile.bufferSize;
+    }
+  }, [inputProfile.bufferSize]);
+
+  // Track a detected note (null for silence) and grade it once it has been
+  // held for holdMs. Shared by the microphone and MIDI inputs.
+  const handleDetectedNote = useCallback(
+    (pitch: DetectedPitch | null, holdMs: number) => {
+      // The cadence into a new key has no prompt to grade against
+      if (currentStateRef.current.isAnnouncingKey) return;
+
+      if (!pitch) {
+        // No signal detected, reset tracking
+        if (currentDetectedNoteRef.current !== null) {
+          console.log("Signal lost, resetting note tracking");
+          currentDetectedNoteRef.current = null;
+          noteDetectionStartTimeRef.current = null;
+          isNoteLoggedRef.current = false;
+        }
 
-    // Calculate semitones from A4
-    const semitones = Math.round(12 * Math.log2(frequency / A4));
+        if (!hasFoundCorrect) {
+          // Only reset to pending if we haven't found correct yet
+          setDetectedNote("");
+          setDetectedCents(null);
+          setNoteStatus("pending");
+        }
+        return;
+      }
 
-    // A4 is at index 9 in NOTE_NAMES (A = 9th note: C=0, C#=1, D=2, D#=3, E=4, F=5, F#=6, G=7, G#=8, A=9)
-    const noteIndex = (9 + semitones) % 12;
+      const currentTime = Date.now();
 
-    // Handle negative modulo
-    const finalIndex = noteIndex < 0 ? noteIndex + 12 : noteIndex;
+      // Check if this is the same note (in the same octave) we were detecting
+      if (currentDetectedNoteRef.current !== pitch.midi) {
+        // Different note detected, start tracking this new note
+        currentDetectedNoteRef.current = pitch.midi;
+        noteDetectionStartTimeRef.current = currentTime;
+        isNoteLoggedRef.current = false;
+        console.log("New note detected, starting timer:", pitch.midi);
+      }
 
-    return NOTE_NAMES[finalIndex];
-  };
+      // Same note, check if we've held it long enough
+      if (
+        noteDetectionStartTimeRef.current === null ||
+        currentTime - noteDetectionStartTimeRef.current < holdMs
+      ) {
+        // Note is being held, but not long enough yet - do nothing
+        return;
+      }
 
-  // Use refs to store current values for pitch detection
-  const currentStateRef = useRef({ selectedKey, currentScaleDegree, mode });
+      // Note has been held long enough, process it
+      console.log("Note confirmed after duration:", {
+        midi: pitch.midi,
+        cents: pitch.cents.toFixed(1),
+        duration: currentTime - noteDetectionStartTimeRef.current,
+        hasDetectedFirstNote: hasDetectedFirstNoteRef.current,
+      });
 
-  // Update ref whenever state changes
-  useEffect(() => {
-    currentStateRef.current = { selectedKey, currentScaleDegree, mode };
-  }, [selectedKey, currentScaleDegree, mode]);
+      // Mark that we've detected the first note
+      if (!hasDetectedFirstNoteRef.current) {
+        console.log("Setting hasDetectedFirstNote to true");
+        hasDetectedFirstNoteRef.current = true;
+        // Now that user has played their first note, we can start recording results
+        isFirstScaleDegree.current = false;
+      }
+
+      // Use current values from ref
+      const {
+        selectedKey: currentKey,
+        currentScaleDegree: shownSD,
+        mode: currentMode,
+        octaveWindow: currentOctaveWindow,
+        intonationTolerance: currentTolerance,
+      } = currentStateRef.current;
+      // A sequence is graded against its next step not yet played
+      const sequence = sequenceRef.current;
+      const currentSD = sequence?.steps[sequence.hits.length] ?? shownSD;
+      const { status, hint } = gradeDetectedPitch(
+        pitch,
+        currentKey,
+        currentSD,
+        currentMode,
+        currentOctaveWindow,
+        currentTolerance
+      );
+
+      const noteName = spellPitchClass(
+        pitch.pitchClass,
+        currentKey,
+        currentMode
+      );
+
+      // Log each confirmed note once, however long it is held
+      const isNewNote = !isNoteLoggedRef.current;
+      if (isNewNote) {
+        isNoteLoggedRef.current = true;
+        detectedNotesRef.current.push({
+          note: `${noteName}${pitch.octave}`,
+          midi: pitch.midi,
+          timeMs:
+            chordOnsetTimeRef.current !== null
+              ? currentTime - chordOnsetTimeRef.current
+              : 0,
+        });
+      }
+
+      console.log("Note comparison:", {
+        detectedNote: `${noteName}${pitch.octave}`,
+        expectedNote: getExpectedNote(
+          currentKey,
+          getKeyDegree(currentSD),
+          currentMode,
+          currentSD.alteration
+        ),
+        rootMidi: getRootMidi(currentKey, currentMode, currentSD.chord),
+        currentKey,
+        scaleDegree: currentSD.degree,
+        chord: currentSD.chord,
+        direction: currentSD.direction,
+        mode: currentMode,
+        status,
+      });
+
+      const isCorrect = status === "correct";
+      // When grading chord tones, name the note as a chord tone if it is
+      // one, so the bubble reads the same way as the prompt
+      const chordToneIndex = currentSD.chordTone
+        ? [1, 3, 5, 7].findIndex(
+            (tone) =>
+              getExpectedPitchClass(
+                currentKey,
+                getKeyDegree({ ...currentSD, degree: tone }),
+                currentMode
+              ) === pitch.pitchClass
+          )
+        : -1;
+      const detectedScaleDegree =
+        chordToneIndex !== -1
+          ? [1, 3, 5, 7][chordToneIndex].toString()
+          : getDegreeLabel(pitch.pitchClass, currentKey, currentMode);
+      const label = `${detectedScaleDegree} (${noteName})`;
+      setDetectedNote(hint ? `${label} · ${hint}` : label);
+      setDetectedCents(pitch.cents);
+
+      if (sequence) {
+        // Every new note is the one attempt at the next step, hit or missed
+        if (isNewNote && sequence.hits.length < sequence.steps.length) {
+          const hits = [...sequence.hits, isCorrect];
+          sequenceRef.current = { ...sequence, hits };
+          setSequenceHits(hits);
+          setNoteStatus(status);
+          if (hits.length < sequence.steps.length) {
+            setCurrentScaleDegree(sequence.steps[hits.length]);
+          }
+        }
+        return;
+      }
+
+      if (isCorrect && !hasFoundCorrect) {
+        // Found correct note for the first time - lock in green
+        setNoteStatus("correct");
+        setHasFoundCorrect(true);
+        everFoundCorrectForCurrentDegree.current = true; // Track that we found it for this scale degree
+        // Reaction time runs to when the correct note started sounding,
+        // not to when it had been held long enough to confirm
+        if (
+          correctResponseMsRef.current === null &&
+          chordOnsetTimeRef.current !== null &&
+          noteDetectionStartTimeRef.current !== null
+        ) {
+          correctResponseMsRef.current = Math.max(
+            0,
+            noteDetectionStartTimeRef.current - chordOnsetTimeRef.current
+          );
+        }
+        console.log("Found correct note, setting hasFoundCorrect to true");
+      } else if (!hasFoundCorrect) {
+        // Haven't found correct yet, show red for wrong notes (or amber
+        // when only the register was wrong)
+        setNoteStatus(status);
+      }
+      // If hasFoundCorrect is true, keep showing green (don't change status)
+    },
+    []
+  ); // No dependencies - function never changes
 
   const detectPitch = useCallback(() => {
     if (!analyser.current) return;
@@ -635,137 +1974,368 @@ const ChordScaleRandomizer: React.FC = () => {
     const buffer = new Float32Array(bufferLength);
     analyser.current.getFloatTimeDomainData(buffer);
 
-    // Simple autocorrelation for pitch detection
-    const sampleRate = audioContext.current!.sampleRate;
-    let maxCorrelation = 0;
-    let bestPeriod = 0;
+    const {
+      inputProfile: profile,
+      noiseGate,
+      rejectChordBleed: shouldRejectBleed,
+      attackGateMs: attackGate,
+    } = currentStateRef.current;
+    const estimate = estimatePitch(buffer, audioContext.current!.sampleRate, {
+      minFrequency: profile.minFrequency,
+      maxFrequency: profile.maxFrequency,
+      minRms: noiseGate,
+    });
+
+    // The chord's attack and, optionally, anything on its partials is
+    // probably the speakers rather than the player, even when it is the
+    // note asked for
+    const isInAttack =
+      attackGate > 0 &&
+      chordOnsetTimeRef.current !== null &&
+      Date.now() - chordOnsetTimeRef.current < attackGate;
+    const isBleed =
+      estimate !== null &&
+      shouldRejectBleed &&
+      isPlaybackPartial(estimate.frequency, [
+        ...chordFrequenciesRef.current,
+        ...(droneRef.current?.frequencies ?? []),
+      ]);
+
+    // Unclear estimates (noise, chord bleed, note transients) are ignored
+    // rather than graded as wrong notes
+    handleDetectedNote(
+      estimate &&
+        estimate.clarity >= currentStateRef.current.minClarity &&
+        !isInAttack &&
+        !isBleed
+        ? frequencyToNote(estimate.frequency)
+        : null,
+      profile.holdMs
+    );
+  }, [handleDetectedNote]);
+
+  // Request MIDI access when MIDI input or output is chosen and keep the
+  // device lists current as devices are plugged in or removed
+  useEffect(() => {
+    if (inputSource !== "midi" && !midiOutputEnabled) return;
+
+    let isCancelled = false;
+    const refreshPorts = () => {
+      const access = midiAccessRef.current;
+      const listPorts = (ports: ReadonlyMap<string, MidiPort>) =>
+        Array.from(ports.values())
+          .filter((port) => port.state === "connected")
+          .map((port) => ({ id: port.id, name: port.name || port.id }));
+      setMidiInputs(access ? listPorts(access.inputs) : []);
+      setMidiOutputs(access ? listPorts(access.outputs) : []);
+    };
 
-    const minPeriod = Math.floor(sampleRate / 800); // ~800 Hz max
-    const maxPeriod = Math.floor(sampleRate / 80); // ~80 Hz min
+    (midiAccessRef.current
+      ? Promise.resolve(midiAccessRef.current)
+      : requestMidiAccess()
+    ).then((access) => {
+      if (isCancelled || !access) return;
+      midiAccessRef.current = access;
+      access.onstatechange = refreshPorts;
+      refreshPorts();
+    });
 
-    for (let period = minPeriod; period < maxPeriod; period++) {
-      let correlation = 0;
-      for (let i = 0; i < bufferLength - period; i++) {
-        correlation += buffer[i] * buffer[i + period];
+    return () => {
+      isCancelled = true;
+      if (midiAccessRef.current) {
+        midiAccessRef.current.onstatechange = null;
       }
-      if (correlation > maxCorrelation) {
-        maxCorrelation = correlation;
-        bestPeriod = period;
+    };
+  }, [inputSource, midiOutputEnabled]);
+
+  // Grade MIDI note-ons while playing. They're exact, so they need neither
+  // pitch estimation nor a hold time.
+  useEffect(() => {
+    const access = midiAccessRef.current;
+    if (!isPlaying || !usesMidi || drillMode === "identify" || !access) return;
+
+    const allPorts = Array.from(access.inputs.values());
+    const selectedPorts = allPorts.filter((port) => port.id === midiInputId);
+    // Listen to everything if the chosen device has been unplugged
+    const ports = selectedPorts.length > 0 ? selectedPorts : allPorts;
+
+    const handleMessage = (event: MidiMessageEvent) => {
+      const message = parseMidiMessage(event.data);
+      if (!message || (midiChannel && message.channel !== midiChannel)) {
+        return;
       }
-    }
+      if (message.type === "noteOn") {
+        handleDetectedNote(midiNoteToPitch(message.note), 0);
+      } else if (message.note === currentDetectedNoteRef.current) {
+        handleDetectedNote(null, 0);
+      }
+    };
 
-    if (maxCorrelation > 0.001 && bestPeriod > 0) {
-      // Threshold for signal detection
-      const frequency = sampleRate / bestPeriod;
-      const note = frequencyToNote(frequency);
-      const currentTime = Date.now();
+    ports.forEach((port) => {
+      port.onmidimessage = handleMessage;
+    });
+    return () => {
+      ports.forEach((port) => {
+        port.onmidimessage = null;
+      });
+    };
+  }, [
+    isPlaying,
+    usesMidi,
+    drillMode,
+    midiInputs,
+    midiInputId,
+    midiChannel,
+    handleDetectedNote,
+  ]);
+
+  // On-screen answers are graded like a note played exactly in tune. Every
+  // tap is a new note, even on the key tapped last.
+  const answerScreenNote = (midi: number) => {
+    isNoteLoggedRef.current = false;
+    handleDetectedNote(midiNoteToPitch(midi), 0);
+  };
 
-      // Check if this is the same note we were detecting
-      if (currentDetectedNoteRef.current === note) {
-        // Same note, check if we've held it long enough
-        if (
-          noteDetectionStartTimeRef.current &&
-          currentTime - noteDetectionStartTimeRef.current >=
-            DETECTION_DURATION_MS
-        ) {
-          // Note has been held long enough, process it
-          console.log("Note confirmed after duration:", {
-            frequency: frequency.toFixed(2),
-            note,
-            duration: currentTime - noteDetectionStartTimeRef.current,
-            hasDetectedFirstNote: hasDetectedFirstNoteRef.current,
-          });
-
-          // Mark that we've detected the first note
-          if (!hasDetectedFirstNoteRef.current) {
-            console.log("Setting hasDetectedFirstNote to true");
-            hasDetectedFirstNoteRef.current = true;
-            // Now that user has played their first note, we can start recording results
-            isFirstScaleDegree.current = false;
-          }
+  // The degree pad has no register, so its answer is placed where the
+  // prompt asks for it: above or below the root, or in the root's octave
+  const answerPadDegree = (interval: number) => {
+    const {
+      selectedKey: currentKey,
+      mode: currentMode,
+      currentScaleDegree: shownSD,
+    } = currentStateRef.current;
+    const sequence = sequenceRef.current;
+    const currentSD = sequence?.steps[sequence.hits.length] ?? shownSD;
+    isNoteLoggedRef.current = false;
+    handleDetectedNote(
+      midiNoteToPitch(
+        placeDegree(currentKey, currentMode, currentSD, interval)
+      ),
+      0
+    );
+  };
 
-          // Use current values from ref
-          const {
-            selectedKey: currentKey,
-            currentScaleDegree: currentSD,
-            mode: currentMode,
-          } = currentStateRef.current;
-          const expectedNote = getExpectedNote(
-            currentKey,
-            currentSD.degree,
-            currentMode
-          );
+  // Identify drill: the first degree named for a prompt is the answer, graded
+  // like a played note so it lands in the same results
+  const answerIdentify = (interval: number) => {
+    if (
+      isAnnouncingKey ||
+      identifyAnswer !== null ||
+      identifyTargetRef.current === null
+    ) {
+      return;
+    }
 
-          console.log("Note comparison:", {
-            detectedNote: note,
-            expectedNote,
-            currentKey,
-            scaleDegree: currentSD.degree,
-            mode: currentMode,
-          });
-
-          const isCorrect = note === expectedNote;
-          const detectedScaleDegree = noteToScaleDegree(
-            note,
-            currentKey,
-            currentMode
-          );
-          setDetectedNote(detectedScaleDegree);
-
-          if (isCorrect && !hasFoundCorrect) {
-            // Found correct note for the first time - lock in green
-            setNoteStatus("correct");
-            setHasFoundCorrect(true);
-            everFoundCorrectForCurrentDegree.current = true; // Track that we found it for this scale degree
-            console.log("Found correct note, setting hasFoundCorrect to true");
-          } else if (!hasFoundCorrect) {
-            // Haven't found correct yet, show red for wrong notes
-            setNoteStatus("incorrect");
-          }
-          // If hasFoundCorrect is true, keep showing green (don't change status)
-        }
-        // Note is being held, but not long enough yet - do nothing
-      } else {
-        // Different note detected, start tracking this new note
-        currentDetectedNoteRef.current = note;
-        noteDetectionStartTimeRef.current = currentTime;
-        console.log("New note detected, starting timer:", note);
-      }
-    } else {
-      // No signal detected, reset tracking
-      if (currentDetectedNoteRef.current !== null) {
-        console.log("Signal lost, resetting note tracking");
-        currentDetectedNoteRef.current = null;
-        noteDetectionStartTimeRef.current = null;
-      }
+    const expected = describeDegree(currentScaleDegree);
+    const isCorrect = interval === expected.interval;
+    const answerLabel =
+      getPadDegrees().find((degree) => degree.interval === interval)?.label ??
+      getIntervalLabel(interval, mode);
+    const answerMidi = placeDegree(
+      selectedKey,
+      mode,
+      currentScaleDegree,
+      interval
+    );
+    const now = Date.now();
+
+    setIdentifyAnswer(interval);
+    hasDetectedFirstNoteRef.current = true;
+    isFirstScaleDegree.current = false;
+    everFoundCorrectForCurrentDegree.current = isCorrect;
+    if (isCorrect && chordOnsetTimeRef.current !== null) {
+      correctResponseMsRef.current = Math.max(
+        0,
+        now - chordOnsetTimeRef.current
+      );
+    }
+    detectedNotesRef.current.push({
+      note: `${spellPitchClass(answerMidi % 12, selectedKey, mode)}${
+        Math.floor(answerMidi / 12) - 1
+      }`,
+      midi: answerMidi,
+      timeMs:
+        chordOnsetTimeRef.current !== null
+          ? now - chordOnsetTimeRef.current
+          : 0,
+    });
 
-      if (!hasFoundCorrect) {
-        // Only reset to pending if we haven't found correct yet
-        setDetectedNote("");
-        setNoteStatus("pending");
-      }
+    setDetectedNote(
+      isCorrect ? answerLabel : `${answerLabel}, not ${expected.degreeLabel}`
+    );
+    setNoteStatus(isCorrect ? "correct" : "incorrect");
+    setHasFoundCorrect(isCorrect);
+  };
+
+  const replayIdentifyPrompt = () => {
+    if (identifyTargetRef.current === null) return;
+    playIdentifyPrompt(currentScaleDegree, identifyTargetRef.current);
+  };
+
+  // Pad buttons: chord tones when grading against the chord, otherwise the
+  // key's degrees plus any chromatic degrees that are switched on
+  const getPadDegrees = (): PadDegree[] => {
+    const { intervals } = MODE_DEFINITIONS[mode];
+    const { chord, chordTone } = currentScaleDegree;
+    if (chordTone && chord) {
+      return getDiatonicChord(mode, chord, 4).map((semitones, i) => ({
+        label: String(i * 2 + 1),
+        interval: (intervals[chord - 1] + semitones) % 12,
+        shortcut: String(i * 2 + 1),
+      }));
     }
-  }, []); // No dependencies - function never changes
+    return [
+      ...intervals.map((interval, i) => ({
+        label: String(i + 1),
+        interval,
+        shortcut: String(i + 1),
+      })),
+      ...getChromaticIntervals(mode)
+        .filter((interval) => chromaticIntervals.includes(interval))
+        .map((interval) => ({
+          label: getIntervalLabel(interval, mode),
+          interval,
+        })),
+    ].sort((a, b) => a.interval - b.interval);
+  };
 
-  const initializeMicrophone = async () => {
+  const initializeMicrophone = async (
+    options: MicrophoneOptions = currentStateRef.current.microphone
+  ) => {
     try {
+      // The context starts suspended until playback resumes it, and a
+      // suspended analyser only ever reads silence
+      if (audioContext.current?.state === "suspended") {
+        await audioContext.current.resume();
+      }
       if (!microphoneStream.current) {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const stream = await getMicrophoneStream(options);
         microphoneStream.current = stream;
 
-        const source = audioContext.current!.createMediaStreamSource(stream);
+        microphoneSource.current =
+          audioContext.current!.createMediaStreamSource(stream);
         analyser.current = audioContext.current!.createAnalyser();
-        analyser.current.fftSize = 2048;
-        source.connect(analyser.current);
+        analyser.current.fftSize =
+          currentStateRef.current.inputProfile.bufferSize;
+        microphoneSource.current.connect(analyser.current);
+        setIsMicReady(true);
+        setMicStatus(null);
       }
       return true;
     } catch (error) {
       console.error("Microphone access denied:", error);
+      microphoneStream.current?.getTracks().forEach((track) => track.stop());
+      microphoneStream.current = null;
+      analyser.current = null;
+      setIsMicReady(false);
+      setMicStatus(
+        "The microphone could not be opened. Check the browser's permission and the selected device."
+      );
       return false;
     }
   };
 
+  // Reopen the microphone with another device or processing options. Pitch
+  // detection keeps running and picks up the new analyser on its next frame.
+  const reopenMicrophone = async (options: MicrophoneOptions) => {
+    if (microphoneStream.current) {
+      microphoneStream.current.getTracks().forEach((track) => track.stop());
+      microphoneStream.current = null;
+      microphoneSource.current?.disconnect();
+      microphoneSource.current = null;
+      analyser.current = null;
+      await initializeMicrophone(options);
+    }
+  };
+
+  // A folder of samples named after their notes, or a single SF2 file
+  const loadSampleFiles = async (files: File[]) => {
+    if (!audioContext.current || files.length === 0) return;
+    setSamplePackStatus("Loading samples...");
+    try {
+      const soundFont = files.find((file) => /\.sf2$/i.test(file.name));
+      const pack = soundFont
+        ? await loadSoundFont(audioContext.current, soundFont)
+        : await loadSampleFolder(audioContext.current, files);
+      setSamplePack(pack);
+      setSamplePackStatus(null);
+    } catch (error) {
+      console.error("Failed to load samples:", error);
+      setSamplePackStatus(
+        error instanceof Error
+          ? error.message
+          : "The samples could not be loaded."
+      );
+    }
+  };
+
+  // Adds a curriculum from a JSON file and starts it from its first level
+  const importCurriculum = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isValidCurriculum(parsed)) {
+        setCurriculumStatus(`${file.name} isn't a valid curriculum.`);
+        return;
+      }
+      const imported: CustomCurriculum = {
+        id: createCustomCurriculumId(),
+        name: parsed.name,
+        levels: parsed.levels,
+      };
+      setCustomCurricula((current) => [...current, imported]);
+      setCurriculumId(imported.id);
+      setCurriculumLevel(0);
+      setCurriculumStatus(null);
+      setIsPlaying(false);
+    } catch (error) {
+      console.error("Failed to import curriculum:", error);
+      setCurriculumStatus(`${file.name} isn't valid JSON.`);
+    }
+  };
+
+  const deleteCustomCurriculum = (id: string) => {
+    setCustomCurricula((current) =>
+      current.filter((custom) => custom.id !== id)
+    );
+    if (curriculumId === id) {
+      setCurriculumId("");
+      setCurriculumLevel(0);
+    }
+  };
+
+  const CALIBRATION_DURATION_MS = 2000;
+
+  // Listen to the room for a couple of seconds and set the noise gate just
+  // above what was heard
+  const calibrateNoiseFloor = async () => {
+    if (audioContext.current?.state === "suspended") {
+      await audioContext.current.resume();
+    }
+    calibrationLevelsRef.current = [];
+    setIsCalibrating(true);
+    setMicStatus(null);
+    setTimeout(() => {
+      const levels = calibrationLevelsRef.current ?? [];
+      calibrationLevelsRef.current = null;
+      setIsCalibrating(false);
+      // All-zero levels mean the input never delivered any audio, which
+      // would otherwise store the lowest gate and turn the gate off
+      if (levels.some((level) => level > 0)) {
+        setCalibratedGate(getCalibratedNoiseGate(levels));
+      } else {
+        setMicStatus("No input was heard, so the noise gate was not changed.");
+      }
+    }, CALIBRATION_DURATION_MS);
+  };
+
+  // Position of an RMS level on the input meter, which spans -60 to 0 dBFS
+  const getMeterPercent = (level: number): number =>
+    Math.min(Math.max(((20 * Math.log10(level) + 60) / 60) * 100, 0), 100);
+
   const startPitchDetection = async () => {
+    // MIDI and on-screen notes arrive through their own handlers
+    if (!currentStateRef.current.needsMicrophone) return;
+
     const micReady = await initializeMicrophone();
     if (micReady) {
       const detect = () => {
@@ -784,41 +2354,180 @@ const ChordScaleRandomizer: React.FC = () => {
     // Keep microphone stream alive to maintain permissions
     // Only stop it when the component unmounts
     setDetectedNote("");
+    setDetectedCents(null);
     setNoteStatus("pending");
   };
 
+  // The chord the next prompt sits over and the degrees it may use
+  const getNextPromptPool = () => {
+    // In progression mode each prompt sits over the next chord in the cycle
+    const chords = progressionEnabled ? parseProgression(progression) : null;
+    const chord = chords
+      ? chords[progressionStepRef.current++ % chords.length]
+      : undefined;
+    const chordTone = chord !== undefined && progressionTarget === "chord";
+
+    // Chord tones when grading against the chord, otherwise the diatonic
+    // degrees plus whichever chromatic degrees are switched on
+    // A curriculum level prompts its own degrees, as long as they fit the
+    // mode
+    const levelDegrees =
+      activeLevel && resolveLevelDegrees(activeLevel.degrees, activeLevel.mode);
+    const pool = chordTone
+      ? [1, 3, 5, 7].map((degree) => ({ degree, alteration: 0 }))
+      : levelDegrees ?? [
+          ...[1, 2, 3, 4, 5, 6, 7].map((degree) => ({
+            degree,
+            alteration: 0,
+          })),
+          ...getChromaticIntervals(mode)
+            .filter((chromatic) => chromaticIntervals.includes(chromatic))
+            .map((chromatic) => getAlteredDegree(chromatic, mode)),
+        ];
+    return { chord, chordTone, pool };
+  };
+
   const generateNewScaleDegree = (): ScaleDegree => {
     let newScaleDegree: ScaleDegree;
+    const { chord, chordTone, pool } = getNextPromptPool();
+
+    if (selectionStrategy === "adaptive") {
+      // Weigh every degree/direction combination by how well it has gone in
+      // this key and mode before, skipping the one just prompted
+      const candidates = pool
+        .flatMap(({ degree, alteration }) =>
+          (degree === 1 && !alteration
+            ? [undefined, ...allowedDirections]
+            : allowedDirections
+          ).map(
+            (direction): ScaleDegree => ({
+              degree,
+              ...(alteration ? { alteration } : {}),
+              ...(direction ? { direction } : {}),
+              ...(chord !== undefined ? { chord, chordTone } : {}),
+            })
+          )
+        )
+        .filter(
+          (candidate) =>
+            !lastCombinationRef.current ||
+            candidate.chord !== lastCombinationRef.current.chord ||
+            candidate.degree !== lastCombinationRef.current.degree ||
+            candidate.alteration !== lastCombinationRef.current.alteration ||
+            candidate.direction !== lastCombinationRef.current.direction
+        );
+      const weights = candidates.map((candidate) =>
+        getItemWeight(
+          selectionStatsRef.current[
+            getItemKey(
+              selectedKey,
+              mode,
+              describeDegree(candidate).degreeLabel,
+              candidate.direction
+            )
+          ]
+        )
+      );
+      return pickWeighted(candidates, weights);
+    }
 
     do {
-      const degree = Math.floor(Math.random() * 7) + 1;
-
-      if (degree === 1) {
-        const rand = Math.random();
-        if (rand < 0.33) {
-          newScaleDegree = { degree: 1 };
-        } else if (rand < 0.66) {
-          newScaleDegree = { degree: 1, direction: "ABOVE" };
-        } else {
-          newScaleDegree = { degree: 1, direction: "BELOW" };
-        }
-      } else {
-        const direction = Math.random() < 0.5 ? "ABOVE" : "BELOW";
-        newScaleDegree = { degree, direction };
+      const { degree, alteration } =
+        pool[Math.floor(Math.random() * pool.length)];
+
+      // The tonic may also be asked for in any octave
+      const directions =
+        degree === 1 && !alteration
+          ? [undefined, ...allowedDirections]
+          : allowedDirections;
+      const direction =
+        directions[Math.floor(Math.random() * directions.length)];
+      newScaleDegree = {
+        degree,
+        ...(alteration ? { alteration } : {}),
+        ...(direction ? { direction } : {}),
+      };
+
+      if (chord !== undefined) {
+        newScaleDegree = { ...newScaleDegree, chord, chordTone };
       }
     } while (
       lastCombinationRef.current &&
+      newScaleDegree.chord === lastCombinationRef.current.chord &&
       newScaleDegree.degree === lastCombinationRef.current.degree &&
+      newScaleDegree.alteration === lastCombinationRef.current.alteration &&
       newScaleDegree.direction === lastCombinationRef.current.direction
     );
 
     return newScaleDegree;
   };
 
+  // Sequence mode: a phrase over one chord. The pool is laid out as a
+  // ladder from an octave below the root to an octave above it, so every
+  // step keeps the direction grading expects.
+  const generateNewSequence = (): ScaleDegree[] => {
+    const { chord, chordTone, pool } = getNextPromptPool();
+    const ordered = pool
+      .map(({ degree, alteration }) => ({
+        degree,
+        ...(alteration ? { alteration } : {}),
+        ...(chord !== undefined ? { chord, chordTone } : {}),
+      }))
+      .sort((a, b) =>
+        chordTone
+          ? a.degree - b.degree
+          : describeDegree(a).interval - describeDegree(b).interval
+      );
+    // The tonic sits between the two octaves, and tops the ladder
+    const tonic = ordered.find(
+      ({ degree, alteration }) => degree === 1 && !alteration
+    );
+    const rungs = (
+      [
+        ...ordered.map((step) => ({ ...step, direction: "BELOW" as const })),
+        ...(tonic ? [tonic] : []),
+        ...ordered
+          .filter((step) => step !== tonic)
+          .map((step) => ({ ...step, direction: "ABOVE" as const })),
+        ...(tonic ? [{ ...tonic, direction: "ABOVE" as const }] : []),
+      ] as ScaleDegree[]
+    ).filter(
+      ({ direction }) => !direction || allowedDirections.includes(direction)
+    );
+
+    return pickSequencePath(rungs.length, {
+      length: sequenceLength,
+      minStep: Math.min(sequenceMinStep, sequenceMaxStep),
+      maxStep: sequenceMaxStep,
+      motion: sequenceMotion,
+    }).map((rung) => rungs[rung]);
+  };
+
+  // Records the prompt that just ended; a sequence counts each of its steps,
+  // with the steps never reached as misses
+  const recordFinishedPrompt = (scaleDegree: ScaleDegree, correct: boolean) => {
+    const finished = sequenceRef.current;
+    if (!finished) {
+      recordPromptResult(scaleDegree, correct);
+      return;
+    }
+    // Response times are only meaningful for single degrees
+    correctResponseMsRef.current = null;
+    finished.steps.forEach((step, index) =>
+      recordPromptResult(step, finished.hits[index] ?? false)
+    );
+  };
+
   // Add a ref to track if this is the first scale degree
   const isFirstScaleDegree = useRef(true);
 
-  const performRandomize = () => {
+  // Switch to a new prompt, heard from chordOnsetTime (wall clock). In
+  // sequence mode newScaleDegree is the sequence's first step.
+  const performRandomize = (
+    newScaleDegree: ScaleDegree,
+    chordOnsetTime: number,
+    newSequence: ScaleDegree[] | null = null
+  ) => {
     // Record result for the previous scale degree (only if user has started playing notes)
     console.log("performRandomize called:", {
       isFirstScaleDegree: isFirstScaleDegree.current,
@@ -827,8 +2536,11 @@ const ChordScaleRandomizer: React.FC = () => {
       resultsLength: results.length,
     });
 
-    // Only record if user has played notes AND this isn't the very first scale degree
-    if (!isFirstScaleDegree.current && hasDetectedFirstNoteRef.current) {
+    // Only record if user has played notes AND this isn't the very first
+    // scale degree (a key change cadence has already recorded its prompt)
+    if (!lastCombinationRef.current) {
+      console.log("Not recording - no prompt since the key change");
+    } else if (!isFirstScaleDegree.current && hasDetectedFirstNoteRef.current) {
       const wasCorrect = everFoundCorrectForCurrentDegree.current;
       console.log("Recording result:", {
         wasCorrect,
@@ -837,11 +2549,7 @@ const ChordScaleRandomizer: React.FC = () => {
           everFoundCorrectForCurrentDegree.current,
         hasFoundCorrect,
       });
-      setResults((prev) => {
-        const newResults = [...prev, wasCorrect];
-        console.log("New results array:", newResults);
-        return newResults;
-      });
+      recordFinishedPrompt(lastCombinationRef.current, wasCorrect);
     } else if (!isFirstScaleDegree.current) {
       console.log("Not recording - user hasnt played any notes yet");
     } else {
@@ -850,73 +2558,443 @@ const ChordScaleRandomizer: React.FC = () => {
       // This will be set to false when we detect the first note
     }
 
-    const newScaleDegree = generateNewScaleDegree();
     setCurrentScaleDegree(newScaleDegree);
     setLastCombination(newScaleDegree);
     lastCombinationRef.current = newScaleDegree; // Keep ref in sync
+    sequenceRef.current = newSequence && { steps: newSequence, hits: [] };
+    setSequence(newSequence);
+    setSequenceHits([]);
+
+    // Response time is measured from the chord onset to the first correct
+    // note
+    chordOnsetTimeRef.current = chordOnsetTime;
+    correctResponseMsRef.current = null;
+    detectedNotesRef.current = [];
+    isNoteLoggedRef.current = false;
 
     // Reset note detection state for new scale degree
     setDetectedNote("");
+    setDetectedCents(null);
     setNoteStatus("pending");
     setHasFoundCorrect(false); // Reset the "found correct" flag
     everFoundCorrectForCurrentDegree.current = false; // Reset for new scale degree
+    setIdentifyAnswer(null);
+    setIsAnnouncingKey(false);
+  };
 
-    playChord(newScaleDegree, interval);
+  // I–IV–V–I in a key, filling one prompt
+  const playCadence = (keyName: string, startTime: number) => {
+    const chordSeconds = promptSeconds / 4;
+    [1, 4, 5, 1].forEach((chordDegree, index) => {
+      playNotes(
+        getChordNotes(keyName, mode, chordDegree),
+        chordSeconds,
+        startTime + index * chordSeconds
+      );
+    });
   };
 
-  // Auto-randomization effect
+  // Key rotation: switch keys mid-session as the cadence starts. The prompt
+  // on screen is recorded now, as no prompt follows it in its own key.
+  const announceKey = (keyName: string) => {
+    if (
+      lastCombinationRef.current &&
+      !isFirstScaleDegree.current &&
+      hasDetectedFirstNoteRef.current
+    ) {
+      recordFinishedPrompt(
+        lastCombinationRef.current,
+        everFoundCorrectForCurrentDegree.current
+      );
+    }
+    lastCombinationRef.current = null;
+    setLastCombination(null);
+    sequenceRef.current = null;
+    setSequence(null);
+    setSequenceHits([]);
+
+    setSelectedKey(keyName);
+    setIsAnnouncingKey(true);
+    setDetectedNote("");
+    setDetectedCents(null);
+    setNoteStatus("pending");
+    setHasFoundCorrect(false);
+    everFoundCorrectForCurrentDegree.current = false;
+  };
+
+  // Books the next prompt's chord on the audio clock; the display switches
+  // to it when the chord is heard
+  const schedulePrompt = (time: number) => {
+    const delayMs = audioContext.current
+      ? Math.max(0, (time - audioContext.current.currentTime) * 1000)
+      : 0;
+
+    // Once enough prompts (or bars of them) have gone by in this key, the
+    // slot announces the next key instead
+    if (keyRotation > 0) {
+      const elapsed = rotatesByBars
+        ? promptsInKeyRef.current * barsPerPrompt
+        : promptsInKeyRef.current;
+      if (elapsed >= (rotatesByBars ? keyRotationBars : keyRotation)) {
+        const nextKey = getNextKey(selectedKey, keyOrder, keySubset);
+        promptsInKeyRef.current = 0;
+        playCadence(nextKey, time);
+        promptTimeoutRef.current = window.setTimeout(
+          () => announceKey(nextKey),
+          delayMs
+        );
+        return;
+      }
+      promptsInKeyRef.current++;
+    }
+
+    // The identify drill always asks for a single degree
+    const newSequence =
+      sequenceLength > 1 && drillMode === "play" ? generateNewSequence() : null;
+    const newScaleDegree = newSequence
+      ? newSequence[0]
+      : generateNewScaleDegree();
+    const targetMidi = placeDegree(
+      selectedKey,
+      mode,
+      newScaleDegree,
+      describeDegree(newScaleDegree).interval
+    );
+
+    let onset: number | null = null;
+    if (drillMode === "identify") {
+      onset = playIdentifyPrompt(newScaleDegree, targetMidi, time);
+    } else if (strikesChords) {
+      onset = playChord(newScaleDegree, promptSeconds, time);
+    }
+    promptTimeoutRef.current = window.setTimeout(() => {
+      identifyTargetRef.current = targetMidi;
+      performRandomize(newScaleDegree, onset ?? Date.now(), newSequence);
+    }, delayMs);
+  };
+
+  // The scheduler outlives renders, so it books each prompt through the
+  // latest schedulePrompt; a rotated key reaches the next prompt without
+  // restarting the beat
+  const schedulePromptRef = useRef(schedulePrompt);
   useEffect(() => {
-    if (intervalId.current) {
-      clearInterval(intervalId.current);
+    schedulePromptRef.current = schedulePrompt;
+  });
+
+  // Move up a level once the session is accurate enough. The new level's
+  // accuracy starts from scratch, like a reset.
+  useEffect(() => {
+    if (
+      !isPlaying ||
+      !curriculum ||
+      !activeLevel ||
+      curriculumLevel >= curriculum.levels.length - 1
+    ) {
+      return;
+    }
+    const correct = results.filter((result) => result.correct).length;
+    if (
+      results.length < (activeLevel.minPrompts ?? DEFAULT_MIN_PROMPTS) ||
+      (correct / results.length) * 100 < activeLevel.passThreshold
+    ) {
+      return;
     }
+    setCurriculumLevel(curriculumLevel + 1);
+    setResults([]);
+    hasDetectedFirstNoteRef.current = false;
+    everFoundCorrectForCurrentDegree.current = false;
+    isFirstScaleDegree.current = true;
+  }, [isPlaying, curriculum, activeLevel, curriculumLevel, results]);
 
-    if (isPlaying) {
-      // Start pitch detection
-      startPitchDetection();
+  // Auto-randomization effect
+  useEffect(() => {
+    schedulerRef.current?.stop();
 
-      // Perform initial randomize
-      performRandomize();
+    if (isPlaying && audioContext.current) {
+      const context = audioContext.current;
+      if (context.state === "suspended") {
+        context.resume();
+      }
 
-      // Set up interval
-      intervalId.current = window.setInterval(() => {
-        performRandomize();
-      }, interval * 1000);
+      // Start the progression from its first chord
+      progressionStepRef.current = 0;
+      promptsInKeyRef.current = 0;
+
+      // In tempo mode a tick is a beat and a prompt lasts whole bars; the
+      // seconds slider makes every tick a prompt
+      const isTempo = timingMode === "tempo";
+      const grid = getPromptGrid(
+        isTempo
+          ? { mode: "tempo", bpm, barsPerPrompt, countIn }
+          : { mode: "seconds", seconds: interval }
+      );
+      schedulerRef.current = startLookaheadScheduler(
+        context,
+        context.currentTime + SCHEDULE_AHEAD_SECONDS,
+        grid.tickSeconds,
+        ({ index, time }) => {
+          if (
+            isTempo &&
+            (metronome || index < grid.countInTicks) &&
+            !isMuted
+          ) {
+            scheduleClick(
+              context,
+              context.destination,
+              time,
+              index % BEATS_PER_BAR === 0,
+              volume * 0.45
+            );
+          }
+          if (isPromptTick(index, grid)) {
+            schedulePromptRef.current(time);
+          }
+        }
+      );
     } else {
       // Record final result before stopping (only if user has played notes)
       if (lastCombination !== null && hasDetectedFirstNoteRef.current) {
-        const wasCorrect = everFoundCorrectForCurrentDegree.current;
-        setResults((prev) => [...prev, wasCorrect]);
+        recordFinishedPrompt(
+          lastCombination,
+          everFoundCorrectForCurrentDegree.current
+        );
       }
 
       // Stop the chord immediately
       stopChord();
-
-      // Stop pitch detection when not playing
-      stopPitchDetection();
     }
 
     return () => {
-      if (intervalId.current) {
-        clearInterval(intervalId.current);
+      schedulerRef.current?.stop();
+      schedulerRef.current = null;
+      if (promptTimeoutRef.current !== null) {
+        clearTimeout(promptTimeoutRef.current);
+        promptTimeoutRef.current = null;
       }
       stopChord();
-      stopPitchDetection();
     };
-  }, [isPlaying, interval, selectedKey, mode, volume, isMuted, timbre]); // Include all audio settings
+  }, [
+    isPlaying,
+    interval,
+    timingMode,
+    bpm,
+    barsPerPrompt,
+    metronome,
+    countIn,
+    mode,
+    volume,
+    isMuted,
+    timbre,
+    samplePack,
+    userTimbres,
+    chordVoicing,
+    seventhChords,
+    bassNote,
+    droneMode,
+    drillMode,
+    sequenceLength,
+    sequenceMinStep,
+    sequenceMaxStep,
+    sequenceMotion,
+  ]); // Include all audio settings
+
+  // Pitch detection runs apart from the prompts, so a MIDI device unplugged
+  // mid-session hands over to the microphone without restarting the session
+  const pitchDetectionRef = useRef({
+    start: startPitchDetection,
+    stop: stopPitchDetection,
+  });
+  useEffect(() => {
+    pitchDetectionRef.current = {
+      start: startPitchDetection,
+      stop: stopPitchDetection,
+    };
+  });
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const { start, stop } = pitchDetectionRef.current;
+    if (needsMicrophone) {
+      start();
+    }
+    return stop;
+  }, [isPlaying, needsMicrophone]);
+
+  const DRONE_FADE_SECONDS = 1.5;
+
+  // Drone mode: hold the tonic (an octave below the chords) while playing.
+  // A new key or sound crossfades to a new drone; volume changes just
+  // retarget the current one.
+  useEffect(() => {
+    const context = audioContext.current;
+    if (!context) return;
+
+    const current = droneRef.current;
+    if (!isPlaying || droneMode === "off") {
+      if (current) {
+        releaseDrone(context, current, DRONE_FADE_SECONDS);
+        droneRef.current = null;
+      }
+      return;
+    }
+
+    const level = isMuted ? 0 : volume * 0.45;
+    const definition = getTimbreDefinition(timbre, userTimbres);
+    const rootMidi = getRootMidi(selectedKey, mode) - 12;
+    const frequencies = (
+      droneMode === "fifth" ? [rootMidi, rootMidi + 7] : [rootMidi]
+    ).map(midiToFrequency);
+    const signature = JSON.stringify({ frequencies, definition });
+
+    if (current && current.signature === signature) {
+      current.gain.gain.setTargetAtTime(level, context.currentTime, 0.05);
+      return;
+    }
+    if (current) {
+      releaseDrone(context, current, DRONE_FADE_SECONDS);
+    }
+    if (context.state === "suspended") {
+      context.resume();
+    }
+    droneRef.current = {
+      ...startDrone(
+        context,
+        definition,
+        frequencies,
+        context.destination,
+        level,
+        DRONE_FADE_SECONDS
+      ),
+      signature,
+      frequencies,
+    };
+  }, [
+    isPlaying,
+    droneMode,
+    selectedKey,
+    mode,
+    volume,
+    isMuted,
+    timbre,
+    userTimbres,
+  ]);
+
+  // Diatonic degrees are shown as plain numbers; chromatic ones use the
+  // mode's label for that note (e.g. "♭7" in major, "♮6" in minor)
+  const describeDegree = (
+    scaleDegree: ScaleDegree
+  ): { degreeLabel: string; interval: number } => {
+    const interval =
+      (MODE_DEFINITIONS[mode].intervals[getKeyDegree(scaleDegree) - 1] +
+        (scaleDegree.alteration ?? 0) +
+        12) %
+      12;
+
+    if (scaleDegree.chordTone && scaleDegree.chord) {
+      // Chord tones are tracked per chord, e.g. "3/vi"
+      return {
+        degreeLabel: `${scaleDegree.degree}/${getRomanNumeral(
+          mode,
+          scaleDegree.chord
+        )}`,
+        interval,
+      };
+    }
+
+    return {
+      degreeLabel: scaleDegree.alteration
+        ? getIntervalLabel(interval, mode)
+        : scaleDegree.degree.toString(),
+      interval,
+    };
+  };
+
+  // Add a finished prompt to the session results and to the per-item
+  // statistics that adaptive selection draws from
+  const recordPromptResult = (scaleDegree: ScaleDegree, correct: boolean) => {
+    const { degreeLabel, interval: semitones } = describeDegree(scaleDegree);
+    const responseMs = correct ? correctResponseMsRef.current : null;
+    setResults((prev) => {
+      const newResults = [
+        ...prev,
+        { degreeLabel, interval: semitones, correct, responseMs },
+      ];
+      console.log("New results array:", newResults);
+      return newResults;
+    });
+
+    selectionStatsRef.current = recordAttempt(
+      selectionStatsRef.current,
+      getItemKey(selectedKey, mode, degreeLabel, scaleDegree.direction),
+      correct,
+      responseMs
+    );
+    saveSelectionStats(selectionStatsRef.current);
+
+    addAttempt({
+      timestamp: Date.now(),
+      key: selectedKey,
+      mode,
+      degree: degreeLabel,
+      direction: scaleDegree.direction,
+      interval: promptSeconds,
+      timbre,
+      detectedNotes: detectedNotesRef.current,
+      timeToCorrectMs: responseMs,
+      correct,
+    }).catch((error) => {
+      console.error("Failed to save attempt to practice history:", error);
+    });
+  };
 
   const formatScaleDegree = (scaleDegree: ScaleDegree): string => {
     if (scaleDegree.degree === 1 && !scaleDegree.direction) {
       return "1";
     }
-    return `${scaleDegree.degree} ${scaleDegree.direction}`;
+    const label = scaleDegree.chordTone
+      ? scaleDegree.degree.toString()
+      : describeDegree(scaleDegree).degreeLabel;
+    return `${label} ${scaleDegree.direction}`;
+  };
+
+  // Sequences are shown compactly, with an arrow for the direction
+  const formatSequenceStep = (scaleDegree: ScaleDegree): string => {
+    const label = scaleDegree.chordTone
+      ? scaleDegree.degree.toString()
+      : describeDegree(scaleDegree).degreeLabel;
+    const arrow =
+      scaleDegree.direction === "ABOVE"
+        ? "↑"
+        : scaleDegree.direction === "BELOW"
+        ? "↓"
+        : "";
+    return `${label}${arrow}`;
   };
 
   const calculateAccuracy = (): number => {
     if (results.length === 0) return 0;
-    const correct = results.filter((result) => result).length;
+    const correct = results.filter((result) => result.correct).length;
     return Math.round((correct / results.length) * 100);
   };
 
+  // Accuracy for each degree that has been prompted, in chromatic order
+  const calculateDegreeAccuracy = (): { label: string; accuracy: number }[] =>
+    Array.from(new Set(results.map((result) => result.degreeLabel)))
+      .map((label) => results.filter((result) => result.degreeLabel === label))
+      .sort((a, b) => a[0].interval - b[0].interval)
+      .map((attempts) => ({
+        label: attempts[0].degreeLabel,
+        accuracy: Math.round(
+          (attempts.filter((result) => result.correct).length /
+            attempts.length) *
+            100
+        ),
+      }));
+
+  const responseTimes = getResponseTimes(results);
+  const medianResponseMs = getMedianResponse(responseTimes);
+  const responseDistribution = getResponseDistribution(responseTimes);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-600 via-purple-500 to-indigo-600 flex items-center justify-center p-4">
       <div className="backdrop-blur-xl bg-white/20 rounded-3xl border border-white/30 shadow-2xl p-8 max-w-md w-full">
@@ -925,12 +3003,20 @@ const ChordScaleRandomizer: React.FC = () => {
             Scale Degree Randomizer
           </h1>
           <div className="flex justify-between gap-4">
-            <button
-              onClick={() => setShowUserManual(true)}
-              className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white text-sm rounded-lg border border-white/30 transition-all"
-            >
-              User Manual
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowUserManual(true)}
+                className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white text-sm rounded-lg border border-white/30 transition-all"
+              >
+                User Manual
+              </button>
+              <button
+                onClick={() => setShowStats(true)}
+                className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white text-sm rounded-lg border border-white/30 transition-all"
+              >
+                Stats
+              </button>
+            </div>
             <div className="relative">
               <button
                 id="settings-button"
@@ -950,79 +3036,1110 @@ const ChordScaleRandomizer: React.FC = () => {
                   id="settings-dropdown"
                   className="absolute top-full right-0 mt-2 w-80 bg-white rounded-xl border border-gray-200 shadow-xl z-10 p-4 space-y-4"
                 >
+                  {/* Curriculum */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Curriculum
+                    </label>
+                    <select
+                      value={curriculum ? curriculumId : ""}
+                      onChange={(e) => {
+                        setCurriculumId(e.target.value);
+                        setCurriculumLevel(0);
+                        setIsPlaying(false);
+                      }}
+                      className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="" className="bg-white">
+                        Free practice
+                      </option>
+                      <option
+                        value={BUILT_IN_CURRICULUM_ID}
+                        className="bg-white"
+                      >
+                        {BUILT_IN_CURRICULUM.name}
+                      </option>
+                      {customCurricula.map((custom) => (
+                        <option
+                          key={custom.id}
+                          value={custom.id}
+                          className="bg-white"
+                        >
+                          {custom.name}
+                        </option>
+                      ))}
+                    </select>
+                    {curriculum && (
+                      <div className="space-y-1 mt-3">
+                        {curriculum.levels.map((level, index) => (
+                          <button
+                            key={index}
+                            onClick={() => {
+                              setCurriculumLevel(index);
+                              setIsPlaying(false);
+                            }}
+                            className={`w-full py-1 px-2 rounded-lg text-sm text-left transition-all ${
+                              index === curriculumLevel
+                                ? "bg-blue-500 text-white shadow-lg"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            {index + 1}. {level.name}
+                          </button>
+                        ))}
+                        {activeLevel && (
+                          <div className="text-xs text-gray-500 pt-1">
+                            Moves up at {activeLevel.passThreshold}% over{" "}
+                            {activeLevel.minPrompts ?? DEFAULT_MIN_PROMPTS}{" "}
+                            prompts
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <label className="flex-1 py-2 px-2 rounded-lg text-sm font-medium text-center transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 cursor-pointer">
+                        Import
+                        <input
+                          type="file"
+                          accept=".json,application/json"
+                          className="hidden"
+                          onChange={(e) => {
+                            const [file] = Array.from(e.target.files ?? []);
+                            if (file) {
+                              importCurriculum(file);
+                            }
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                      {curriculum &&
+                        curriculumId !== BUILT_IN_CURRICULUM_ID && (
+                          <button
+                            onClick={() => deleteCustomCurriculum(curriculumId)}
+                            className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-red-50 text-red-600 hover:bg-red-100"
+                          >
+                            Delete
+                          </button>
+                        )}
+                    </div>
+                    {curriculumStatus && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {curriculumStatus}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Drill Mode */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Drill
+                    </label>
+                    <div className="flex gap-2">
+                      {(["play", "identify"] as DrillMode[]).map((drill) => (
+                        <button
+                          key={drill}
+                          onClick={() => {
+                            setDrillMode(drill);
+                            setIsPlaying(false);
+                          }}
+                          className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                            drillMode === drill
+                              ? "bg-blue-500 text-white shadow-lg"
+                              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          }`}
+                        >
+                          {drill === "play" ? "See & Play" : "Hear & Name"}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Interval Control */}
+                  <fieldset
+                    disabled={activeLevel !== null}
+                    className="disabled:opacity-50"
+                  >
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Timing
+                    </label>
+                    <div className="flex gap-2 mb-3">
+                      <button
+                        onClick={() => {
+                          setTimingMode("seconds");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          timingMode === "seconds"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Seconds
+                      </button>
+                      <button
+                        onClick={() => {
+                          setTimingMode("tempo");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          timingMode === "tempo"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Tempo
+                      </button>
+                    </div>
+                    {timingMode === "seconds" ? (
+                      <label className="block text-xs text-gray-500">
+                        Interval: {interval}s
+                        <input
+                          type="range"
+                          min="1"
+                          max="5"
+                          step="0.25"
+                          value={interval}
+                          onChange={(e) => {
+                            setInterval(parseFloat(e.target.value));
+                            setIsPlaying(false);
+                          }}
+                          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                        />
+                      </label>
+                    ) : (
+                      <div className="space-y-3">
+                        <label className="block text-xs text-gray-500">
+                          Tempo: {bpm} BPM
+                          <input
+                            type="range"
+                            min="40"
+                            max="240"
+                            step="1"
+                            value={bpm}
+                            onChange={(e) => {
+                              setBpm(parseInt(e.target.value, 10));
+                              setIsPlaying(false);
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Bars per prompt: {barsPerPrompt} (
+                          {promptSeconds.toFixed(1)}s)
+                          <input
+                            type="range"
+                            min="1"
+                            max="4"
+                            step="1"
+                            value={barsPerPrompt}
+                            onChange={(e) => {
+                              setBarsPerPrompt(parseInt(e.target.value, 10));
+                              setIsPlaying(false);
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <div className="flex items-center justify-between">
+                          <label className="text-gray-700 text-sm font-medium">
+                            Metronome
+                          </label>
+                          <button
+                            onClick={() => {
+                              setMetronome(!metronome);
+                              setIsPlaying(false);
+                            }}
+                            className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                              metronome
+                                ? "bg-blue-500 text-white"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            {metronome ? "On" : "Off"}
+                          </button>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <label className="text-gray-700 text-sm font-medium">
+                            Count-in
+                          </label>
+                          <button
+                            onClick={() => {
+                              setCountIn(!countIn);
+                              setIsPlaying(false);
+                            }}
+                            className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                              countIn
+                                ? "bg-blue-500 text-white"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            {countIn ? "On" : "Off"}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </fieldset>
+
+                  {/* Key Selection */}
+                  <fieldset
+                    disabled={activeLevel !== null}
+                    className="disabled:opacity-50"
+                  >
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Key
+                    </label>
+                    <select
+                      value={selectedKey}
+                      onChange={(e) => {
+                        setSelectedKey(e.target.value);
+                        setIsPlaying(false);
+                      }}
+                      className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {KEYS.map((key) => (
+                        <option key={key} value={key} className="bg-white">
+                          {key}
+                        </option>
+                      ))}
+                    </select>
+                  </fieldset>
+
+                  {/* Key Rotation */}
+                  <fieldset
+                    disabled={activeLevel !== null}
+                    className="disabled:opacity-50"
+                  >
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Key Rotation:{" "}
+                      {keyRotation === 0
+                        ? "off"
+                        : rotatesByBars
+                        ? `every ${keyRotationBars} ${
+                            keyRotationBars === 1 ? "bar" : "bars"
+                          }`
+                        : `every ${keyRotation} ${
+                            keyRotation === 1 ? "prompt" : "prompts"
+                          }`}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max={MAX_KEY_ROTATION}
+                      step={rotatesByBars ? barsPerPrompt : 1}
+                      value={rotatesByBars ? keyRotationBars : keyRotation}
+                      onChange={(e) => {
+                        setKeyRotation(parseInt(e.target.value, 10));
+                        setIsPlaying(false);
+                      }}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                    {keyRotation > 0 && (
+                      <div className="space-y-3 mt-3">
+                        {timingMode === "tempo" && (
+                          <div className="flex gap-2">
+                            {(["prompts", "bars"] as KeyRotationUnit[]).map(
+                              (unit) => (
+                                <button
+                                  key={unit}
+                                  onClick={() => {
+                                    setKeyRotationUnit(unit);
+                                    setIsPlaying(false);
+                                  }}
+                                  className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                                    keyRotationUnit === unit
+                                      ? "bg-blue-500 text-white shadow-lg"
+                                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                  }`}
+                                >
+                                  {unit === "prompts" ? "Prompts" : "Bars"}
+                                </button>
+                              )
+                            )}
+                          </div>
+                        )}
+                        <div className="grid grid-cols-4 gap-2">
+                          {(Object.keys(KEY_ORDER_LABELS) as KeyOrder[]).map(
+                            (order) => (
+                              <button
+                                key={order}
+                                onClick={() => {
+                                  setKeyOrder(order);
+                                  setIsPlaying(false);
+                                }}
+                                className={`py-2 px-1 rounded-lg text-sm font-medium transition-all ${
+                                  keyOrder === order
+                                    ? "bg-blue-500 text-white shadow-lg"
+                                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                }`}
+                              >
+                                {KEY_ORDER_LABELS[order]}
+                              </button>
+                            )
+                          )}
+                        </div>
+                        {keyOrder === "subset" && (
+                          <div className="grid grid-cols-4 gap-2">
+                            {KEYS.map((key) => (
+                              <button
+                                key={key}
+                                onClick={() => {
+                                  setKeySubset((prev) =>
+                                    prev.includes(key)
+                                      ? prev.filter((k) => k !== key)
+                                      : [...prev, key]
+                                  );
+                                  setIsPlaying(false);
+                                }}
+                                className={`py-2 px-1 rounded-lg text-xs font-medium transition-all ${
+                                  keySubset.includes(key)
+                                    ? "bg-blue-500 text-white shadow-lg"
+                                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                }`}
+                              >
+                                {key}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </fieldset>
+
+                  {/* Mode Selection */}
+                  <fieldset
+                    disabled={activeLevel !== null}
+                    className="disabled:opacity-50"
+                  >
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Mode
+                    </label>
+                    <select
+                      value={mode}
+                      onChange={(e) => {
+                        setMode(e.target.value as Mode);
+                        setIsPlaying(false);
+                      }}
+                      className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {MODES.map((modeOption) => (
+                        <option
+                          key={modeOption}
+                          value={modeOption}
+                          className="bg-white"
+                        >
+                          {MODE_DEFINITIONS[modeOption].label}
+                        </option>
+                      ))}
+                    </select>
+                  </fieldset>
+
+                  {/* Chromatic Degree Selection */}
+                  <fieldset
+                    disabled={activeLevel !== null}
+                    className="disabled:opacity-50"
+                  >
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Chromatic Degrees
+                    </label>
+                    <div className="grid grid-cols-5 gap-2">
+                      {getChromaticIntervals(mode).map((chromatic) => (
+                        <button
+                          key={chromatic}
+                          onClick={() => {
+                            setChromaticIntervals((prev) =>
+                              prev.includes(chromatic)
+                                ? prev.filter((i) => i !== chromatic)
+                                : [...prev, chromatic]
+                            );
+                            setIsPlaying(false);
+                          }}
+                          className={`py-2 px-1 rounded-lg font-medium transition-all ${
+                            chromaticIntervals.includes(chromatic)
+                              ? "bg-blue-500 text-white shadow-lg"
+                              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          }`}
+                        >
+                          {getIntervalLabel(chromatic, mode)}
+                        </button>
+                      ))}
+                    </div>
+                  </fieldset>
+
+                  {/* Degree Selection */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <label className="text-gray-700 text-sm font-medium">
+                        Degree Selection
+                      </label>
+                      <button
+                        onClick={() => {
+                          selectionStatsRef.current = {};
+                          saveSelectionStats({});
+                        }}
+                        className="px-3 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+                      >
+                        Reset Progress
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          setSelectionStrategy("uniform");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          selectionStrategy === "uniform"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Uniform
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSelectionStrategy("adaptive");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          selectionStrategy === "adaptive"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Adaptive
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Chord Progression */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <label className="text-gray-700 text-sm font-medium">
+                        Chord Progression
+                      </label>
+                      <button
+                        onClick={() => {
+                          setProgressionEnabled(!progressionEnabled);
+                          setIsPlaying(false);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          progressionEnabled
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {progressionEnabled ? "On" : "Off"}
+                      </button>
+                    </div>
+                    {progressionEnabled && (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={progression}
+                          onChange={(e) => {
+                            setProgression(e.target.value);
+                            setIsPlaying(false);
+                          }}
+                          placeholder="I-vi-IV-V"
+                          className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <div className="text-xs text-gray-500">
+                          {parseProgression(progression)
+                            ?.map((degree) => getRomanNumeral(mode, degree))
+                            .join(" – ") ??
+                            "Use diatonic Roman numerals, e.g. ii-V-I"}
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => {
+                              setProgressionTarget("key");
+                              setIsPlaying(false);
+                            }}
+                            className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                              progressionTarget === "key"
+                                ? "bg-blue-500 text-white shadow-lg"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            Key Degrees
+                          </button>
+                          <button
+                            onClick={() => {
+                              setProgressionTarget("chord");
+                              setIsPlaying(false);
+                            }}
+                            className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                              progressionTarget === "chord"
+                                ? "bg-blue-500 text-white shadow-lg"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            Chord Tones
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Sequence */}
                   <div>
                     <label className="block text-gray-700 text-sm font-medium mb-3">
-                      Interval: {interval}s
+                      Sequence:{" "}
+                      {sequenceLength === 1
+                        ? "single degrees"
+                        : `${sequenceLength} degrees`}
                     </label>
                     <input
                       type="range"
                       min="1"
-                      max="5"
-                      step="0.25"
-                      value={interval}
+                      max={MAX_SEQUENCE_LENGTH}
+                      step="1"
+                      value={sequenceLength}
                       onChange={(e) => {
-                        setInterval(parseFloat(e.target.value));
+                        setSequenceLength(parseInt(e.target.value, 10));
                         setIsPlaying(false);
                       }}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                     />
+                    {sequenceLength > 1 && (
+                      <div className="space-y-3 mt-3">
+                        <label className="block text-xs text-gray-500">
+                          Smallest step: {sequenceMinStep}
+                          <input
+                            type="range"
+                            min="1"
+                            max={MAX_SEQUENCE_STEP}
+                            step="1"
+                            value={sequenceMinStep}
+                            onChange={(e) => {
+                              const step = parseInt(e.target.value, 10);
+                              setSequenceMinStep(step);
+                              setSequenceMaxStep((max) => Math.max(max, step));
+                              setIsPlaying(false);
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Largest step: {sequenceMaxStep}
+                          <input
+                            type="range"
+                            min="1"
+                            max={MAX_SEQUENCE_STEP}
+                            step="1"
+                            value={sequenceMaxStep}
+                            onChange={(e) => {
+                              const step = parseInt(e.target.value, 10);
+                              setSequenceMaxStep(step);
+                              setSequenceMinStep((min) => Math.min(min, step));
+                              setIsPlaying(false);
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <div className="flex gap-2">
+                          {(["random", "stepwise"] as SequenceMotion[]).map(
+                            (motion) => (
+                              <button
+                                key={motion}
+                                onClick={() => {
+                                  setSequenceMotion(motion);
+                                  setIsPlaying(false);
+                                }}
+                                className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                                  sequenceMotion === motion
+                                    ? "bg-blue-500 text-white shadow-lg"
+                                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                }`}
+                              >
+                                {motion === "random" ? "Random" : "Stepwise"}
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Octave Window Control */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Octave Window: {octaveWindow}{" "}
+                      {octaveWindow === 1 ? "octave" : "octaves"}
+                    </label>
+                    <input
+                      type="range"
+                      min="1"
+                      max="3"
+                      step="1"
+                      value={octaveWindow}
+                      onChange={(e) => {
+                        setOctaveWindow(parseInt(e.target.value, 10));
+                      }}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                  </div>
+
+                  {/* Input Source Selection */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Input Source
+                    </label>
+                    <div className="flex gap-2">
+                      {(["microphone", "midi", "screen"] as InputSource[]).map(
+                        (source) => (
+                          <button
+                            key={source}
+                            onClick={() => {
+                              setInputSource(source);
+                              setIsPlaying(false);
+                            }}
+                            className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                              inputSource === source
+                                ? "bg-blue-500 text-white shadow-lg"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            {INPUT_SOURCE_LABELS[source]}
+                          </button>
+                        )
+                      )}
+                    </div>
+                    {inputSource === "midi" &&
+                      (!usesMidi ? (
+                        <div className="text-xs text-gray-500 mt-2">
+                          {isMidiSupported()
+                            ? "No MIDI device connected, using the microphone."
+                            : "This browser doesn't support MIDI, using the microphone."}
+                        </div>
+                      ) : (
+                        <div className="space-y-2 mt-3">
+                          <select
+                            value={midiInputId}
+                            onChange={(e) => setMidiInputId(e.target.value)}
+                            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="" className="bg-white">
+                              All MIDI Inputs
+                            </option>
+                            {midiInputs.map((input) => (
+                              <option
+                                key={input.id}
+                                value={input.id}
+                                className="bg-white"
+                              >
+                                {input.name}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={midiChannel}
+                            onChange={(e) =>
+                              setMidiChannel(parseInt(e.target.value, 10))
+                            }
+                            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value={0} className="bg-white">
+                              All Channels
+                            </option>
+                            {Array.from({ length: 16 }, (_, i) => i + 1).map(
+                              (channel) => (
+                                <option
+                                  key={channel}
+                                  value={channel}
+                                  className="bg-white"
+                                >
+                                  Channel {channel}
+                                </option>
+                              )
+                            )}
+                          </select>
+                        </div>
+                      ))}
+                    {inputSource === "screen" && (
+                      <div className="flex gap-2 mt-3">
+                        {(["pad", "piano"] as ScreenInputLayout[]).map(
+                          (layout) => (
+                            <button
+                              key={layout}
+                              onClick={() => setScreenInputLayout(layout)}
+                              className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                                screenInputLayout === layout
+                                  ? "bg-blue-500 text-white shadow-lg"
+                                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                              }`}
+                            >
+                              {layout === "pad" ? "Degree Pad" : "Piano"}
+                            </button>
+                          )
+                        )}
+                      </div>
+                    )}
                   </div>
 
-                  {/* Key Selection */}
+                  {/* Input Device Selection */}
                   <div>
                     <label className="block text-gray-700 text-sm font-medium mb-3">
-                      Key
+                      Input Device
                     </label>
                     <select
-                      value={selectedKey}
+                      value={inputDeviceId}
                       onChange={(e) => {
-                        setSelectedKey(e.target.value);
-                        setIsPlaying(false);
+                        setInputDeviceId(e.target.value);
+                        reopenMicrophone({
+                          ...microphoneOptions,
+                          deviceId: e.target.value,
+                        });
                       }}
                       className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     >
-                      {KEYS.map((key) => (
-                        <option key={key} value={key} className="bg-white">
-                          {key}
-                        </option>
-                      ))}
+                      <option value="" className="bg-white">
+                        Default
+                      </option>
+                      {inputDevices
+                        .filter((device) => device.deviceId !== "default")
+                        .map((device, i) => (
+                          <option
+                            key={device.deviceId}
+                            value={device.deviceId}
+                            className="bg-white"
+                          >
+                            {device.label || `Input ${i + 1}`}
+                          </option>
+                        ))}
                     </select>
+                    {isMicReady ? (
+                      <div className="mt-3 space-y-2">
+                        {/* Input meter with the noise gate marked */}
+                        <div className="relative h-2 bg-gray-200 rounded-lg overflow-hidden">
+                          <div
+                            className={`h-2 ${
+                              inputLevel >=
+                              (calibratedGate ?? inputProfile.noiseGate)
+                                ? "bg-green-500"
+                                : "bg-gray-400"
+                            }`}
+                            style={{ width: `${getMeterPercent(inputLevel)}%` }}
+                          />
+                          <div
+                            className="absolute top-0 w-0.5 h-2 bg-red-500"
+                            style={{
+                              left: `${getMeterPercent(
+                                calibratedGate ?? inputProfile.noiseGate
+                              )}%`,
+                            }}
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={calibrateNoiseFloor}
+                            disabled={isCalibrating}
+                            className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                          >
+                            {isCalibrating
+                              ? "Stay quiet..."
+                              : "Calibrate Noise Floor"}
+                          </button>
+                          {calibratedGate !== null && (
+                            <button
+                              onClick={() => setCalibratedGate(null)}
+                              className="py-2 px-3 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            >
+                              Reset
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => initializeMicrophone()}
+                        className="w-full mt-3 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        Test Input
+                      </button>
+                    )}
+                    {micStatus && (
+                      <p className="text-xs text-gray-500 mt-2">{micStatus}</p>
+                    )}
                   </div>
 
-                  {/* Mode Selection */}
-                  <div>
+                  {/* Speaker Bleed Rejection */}
+                  <div className="space-y-2">
                     <label className="block text-gray-700 text-sm font-medium mb-3">
-                      Mode
+                      Speaker Bleed
                     </label>
-                    <div className="flex gap-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-500 text-xs">
+                        Echo Cancellation
+                      </span>
                       <button
                         onClick={() => {
-                          setMode("major");
-                          setIsPlaying(false);
+                          setEchoCancellation(!echoCancellation);
+                          reopenMicrophone({
+                            ...microphoneOptions,
+                            echoCancellation: !echoCancellation,
+                          });
                         }}
-                        className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
-                          mode === "major"
-                            ? "bg-blue-500 text-white shadow-lg"
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          echoCancellation
+                            ? "bg-blue-500 text-white"
                             : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                         }`}
                       >
-                        Major
+                        {echoCancellation ? "On" : "Off"}
                       </button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-500 text-xs">
+                        Noise Suppression
+                      </span>
                       <button
                         onClick={() => {
-                          setMode("minor");
-                          setIsPlaying(false);
+                          setNoiseSuppression(!noiseSuppression);
+                          reopenMicrophone({
+                            ...microphoneOptions,
+                            noiseSuppression: !noiseSuppression,
+                          });
                         }}
-                        className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
-                          mode === "minor"
-                            ? "bg-blue-500 text-white shadow-lg"
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          noiseSuppression
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {noiseSuppression ? "On" : "Off"}
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-500 text-xs">
+                        Ignore Chord Partials
+                      </span>
+                      <button
+                        onClick={() => {
+                          setRejectChordBleed(!rejectChordBleed);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          rejectChordBleed
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {rejectChordBleed ? "On" : "Off"}
+                      </button>
+                    </div>
+                    <label className="block text-gray-500 text-xs pt-1">
+                      Attack Gate:{" "}
+                      {attackGateMs > 0 ? `${attackGateMs} ms` : "Off"}
+                      <input
+                        type="range"
+                        min="0"
+                        max="500"
+                        step="50"
+                        value={attackGateMs}
+                        onChange={(e) => {
+                          setAttackGateMs(parseInt(e.target.value, 10));
+                        }}
+                        className="w-full h-2 mt-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                    </label>
+                  </div>
+
+                  {/* Input Profile Selection */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Input Profile
+                    </label>
+                    <select
+                      value={inputProfileId}
+                      onChange={(e) => {
+                        setInputProfileId(e.target.value as InputProfileId);
+                      }}
+                      className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {INPUT_PROFILE_IDS.map((profileId) => (
+                        <option
+                          key={profileId}
+                          value={profileId}
+                          className="bg-white"
+                        >
+                          {profileId === "custom"
+                            ? "Custom"
+                            : INPUT_PROFILES[profileId].label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="text-xs text-gray-500 mt-2">
+                      {Math.round(inputProfile.minFrequency)}–
+                      {Math.round(inputProfile.maxFrequency)} Hz, hold{" "}
+                      {inputProfile.holdMs} ms
+                    </div>
+                    {inputProfileId === "custom" && (
+                      <div className="space-y-2 mt-3">
+                        <label className="block text-xs text-gray-500">
+                          Lowest: {Math.round(customProfile.minFrequency)} Hz
+                          <input
+                            type="range"
+                            min={frequencyToNote(MIN_FREQUENCY)!.midi + 1}
+                            max={
+                              frequencyToNote(customProfile.maxFrequency)!
+                                .midi - 1
+                            }
+                            step="1"
+                            value={
+                              frequencyToNote(customProfile.minFrequency)!.midi
+                            }
+                            onChange={(e) => {
+                              const minFrequency = midiToFrequency(
+                                parseInt(e.target.value, 10)
+                              );
+                              // A lower note may need a longer buffer
+                              setCustomProfile({
+                                ...customProfile,
+                                minFrequency,
+                                bufferSize: Math.max(
+                                  customProfile.bufferSize,
+                                  getMinBufferSize(minFrequency)
+                                ),
+                              });
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Highest: {Math.round(customProfile.maxFrequency)} Hz
+                          <input
+                            type="range"
+                            min={
+                              frequencyToNote(customProfile.minFrequency)!
+                                .midi + 1
+                            }
+                            max={frequencyToNote(MAX_FREQUENCY)!.midi - 1}
+                            step="1"
+                            value={
+                              frequencyToNote(customProfile.maxFrequency)!.midi
+                            }
+                            onChange={(e) => {
+                              setCustomProfile({
+                                ...customProfile,
+                                maxFrequency: midiToFrequency(
+                                  parseInt(e.target.value, 10)
+                                ),
+                              });
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Hold: {customProfile.holdMs} ms
+                          <input
+                            type="range"
+                            min="0"
+                            max="500"
+                            step="10"
+                            value={customProfile.holdMs}
+                            onChange={(e) => {
+                              setCustomProfile({
+                                ...customProfile,
+                                holdMs: parseInt(e.target.value, 10),
+                              });
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Noise Gate: {customProfile.noiseGate.toFixed(3)}
+                          <input
+                            type="range"
+                            min="0"
+                            max="0.1"
+                            step="0.005"
+                            value={customProfile.noiseGate}
+                            onChange={(e) => {
+                              setCustomProfile({
+                                ...customProfile,
+                                noiseGate: parseFloat(e.target.value),
+                              });
+                            }}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </label>
+                        <label className="block text-xs text-gray-500">
+                          Buffer Size
+                          <select
+                            value={customProfile.bufferSize}
+                            onChange={(e) => {
+                              setCustomProfile({
+                                ...customProfile,
+                                bufferSize: parseInt(e.target.value, 10),
+                              });
+                            }}
+                            className="w-full mt-1 p-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {BUFFER_SIZES.filter(
+                              (size) =>
+                                size >=
+                                getMinBufferSize(customProfile.minFrequency)
+                            ).map((size) => (
+                              <option key={size} value={size}>
+                                {size} samples
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Detection Confidence Control */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Detection Confidence: {Math.round(minClarity * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="0.99"
+                      step="0.01"
+                      value={minClarity}
+                      onChange={(e) => {
+                        setMinClarity(parseFloat(e.target.value));
+                      }}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                  </div>
+
+                  {/* Strict Intonation */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <label className="text-gray-700 text-sm font-medium">
+                        Strict Intonation
+                        {strictIntonation && `: ±${intonationTolerance}¢`}
+                      </label>
+                      <button
+                        onClick={() => {
+                          setStrictIntonation(!strictIntonation);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          strictIntonation
+                            ? "bg-blue-500 text-white"
                             : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                         }`}
                       >
-                        Minor
+                        {strictIntonation ? "On" : "Off"}
                       </button>
                     </div>
+                    {strictIntonation && (
+                      <input
+                        type="range"
+                        min="5"
+                        max="50"
+                        step="5"
+                        value={intonationTolerance}
+                        onChange={(e) => {
+                          setIntonationTolerance(parseInt(e.target.value, 10));
+                        }}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                    )}
                   </div>
 
                   {/* Volume Control */}
@@ -1060,12 +4177,135 @@ const ChordScaleRandomizer: React.FC = () => {
                     />
                   </div>
 
+                  {/* Chord Voicing */}
+                  <div className="space-y-3">
+                    <label className="block text-gray-700 text-sm font-medium">
+                      Chord Voicing
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          setChordVoicing("root");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          chordVoicing === "root"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Root
+                      </button>
+                      <button
+                        onClick={() => {
+                          setChordVoicing("inversion");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          chordVoicing === "inversion"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Inversions
+                      </button>
+                      <button
+                        onClick={() => {
+                          setChordVoicing("drop2");
+                          setIsPlaying(false);
+                        }}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          chordVoicing === "drop2"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Drop 2
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-gray-700 text-sm font-medium">
+                        Seventh Chords
+                      </label>
+                      <button
+                        onClick={() => {
+                          setSeventhChords(!seventhChords);
+                          setIsPlaying(false);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          seventhChords
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {seventhChords ? "On" : "Off"}
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-gray-700 text-sm font-medium">
+                        Bass Note
+                      </label>
+                      <button
+                        onClick={() => {
+                          setBassNote(!bassNote);
+                          setIsPlaying(false);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          bassNote
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {bassNote ? "On" : "Off"}
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Drone */}
+                  <div>
+                    <label className="block text-gray-700 text-sm font-medium mb-3">
+                      Drone
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setDroneMode("off")}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          droneMode === "off"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Off
+                      </button>
+                      <button
+                        onClick={() => setDroneMode("tonic")}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          droneMode === "tonic"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Tonic
+                      </button>
+                      <button
+                        onClick={() => setDroneMode("fifth")}
+                        className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all ${
+                          droneMode === "fifth"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        Tonic + 5th
+                      </button>
+                    </div>
+                  </div>
+
                   {/* Timbre Selection */}
                   <div>
                     <label className="block text-gray-700 text-sm font-medium mb-3">
                       Chord Timbre
                     </label>
-                    <div className="grid grid-cols-3 gap-2">
+                    <div className="grid grid-cols-4 gap-2">
                       <button
                         onClick={() => {
                           setTimbre("piano");
@@ -1105,7 +4345,205 @@ const ChordScaleRandomizer: React.FC = () => {
                       >
                         C
                       </button>
+                      <button
+                        onClick={() => {
+                          setTimbre("sampled");
+                          setIsPlaying(false);
+                        }}
+                        className={`py-3 px-2 rounded-lg font-medium transition-all ${
+                          timbre === "sampled"
+                            ? "bg-blue-500 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        D
+                      </button>
+                      {userTimbres.map((userTimbre) => (
+                        <button
+                          key={userTimbre.id}
+                          onClick={() => {
+                            setTimbre(userTimbre.id);
+                            setIsPlaying(false);
+                          }}
+                          className={`py-3 px-2 rounded-lg font-medium transition-all truncate ${
+                            timbre === userTimbre.id
+                              ? "bg-blue-500 text-white shadow-lg"
+                              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          }`}
+                          title={userTimbre.name}
+                        >
+                          {userTimbre.name}
+                        </button>
+                      ))}
+                    </div>
+                    {timbre === "sampled" && (
+                      <div className="mt-3">
+                        <p className="text-xs text-gray-500 mb-2">
+                          {samplePackStatus ??
+                            (samplePack
+                              ? `${samplePack.name} (${samplePack.zones.length} samples)`
+                              : "No samples loaded, using the synthesizer.")}
+                        </p>
+                        <div className="flex gap-2">
+                          <label className="flex-1 py-2 px-2 rounded-lg text-sm font-medium text-center transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 cursor-pointer">
+                            Load Folder
+                            <input
+                              type="file"
+                              multiple
+                              {...FOLDER_INPUT_PROPS}
+                              className="hidden"
+                              onChange={(e) => {
+                                loadSampleFiles(
+                                  Array.from(e.target.files ?? [])
+                                );
+                                e.target.value = "";
+                              }}
+                            />
+                          </label>
+                          <label className="flex-1 py-2 px-2 rounded-lg text-sm font-medium text-center transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 cursor-pointer">
+                            Load SF2
+                            <input
+                              type="file"
+                              accept=".sf2"
+                              className="hidden"
+                              onChange={(e) => {
+                                loadSampleFiles(
+                                  Array.from(e.target.files ?? [])
+                                );
+                                e.target.value = "";
+                              }}
+                            />
+                          </label>
+                        </div>
+                      </div>
+                    )}
+                    {timbreDraft ? (
+                      <TimbreEditor
+                        draft={timbreDraft}
+                        isSaved={userTimbres.some(
+                          ({ id }) => id === timbreDraft.id
+                        )}
+                        previewDisabled={isPlaying || isMuted}
+                        onChange={setTimbreDraft}
+                        onPreview={() => previewTimbre(timbreDraft)}
+                        onSave={saveTimbreDraft}
+                        onDelete={() => deleteUserTimbre(timbreDraft.id)}
+                        onCancel={() => setTimbreDraft(null)}
+                      />
+                    ) : (
+                      <div className="flex gap-2 mt-3">
+                        <button
+                          onClick={() =>
+                            // Start from whatever is selected now
+                            setTimbreDraft({
+                              ...getTimbreDefinition(timbre, userTimbres),
+                              id: createUserTimbreId(),
+                              name: "My Timbre",
+                            })
+                          }
+                          className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          New Timbre
+                        </button>
+                        {isUserTimbreId(timbre) && (
+                          <button
+                            onClick={() =>
+                              setTimbreDraft(
+                                userTimbres.find(({ id }) => id === timbre) ??
+                                  null
+                              )
+                            }
+                            className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          >
+                            Edit Timbre
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* MIDI Output */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <label className="text-gray-700 text-sm font-medium">
+                        MIDI Output
+                      </label>
+                      <button
+                        onClick={() => {
+                          setMidiOutputEnabled(!midiOutputEnabled);
+                          setIsPlaying(false);
+                        }}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                          midiOutputEnabled
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {midiOutputEnabled ? "On" : "Off"}
+                      </button>
                     </div>
+                    {midiOutputEnabled &&
+                      (midiOutputs.length === 0 ? (
+                        <div className="text-xs text-gray-500">
+                          {isMidiSupported()
+                            ? "No MIDI output connected, using the built-in synth."
+                            : "This browser doesn't support MIDI, using the built-in synth."}
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <select
+                            value={midiOutputId}
+                            onChange={(e) => setMidiOutputId(e.target.value)}
+                            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="" className="bg-white">
+                              First Available Output
+                            </option>
+                            {midiOutputs.map((output) => (
+                              <option
+                                key={output.id}
+                                value={output.id}
+                                className="bg-white"
+                              >
+                                {output.name}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={midiOutputChannel}
+                            onChange={(e) =>
+                              setMidiOutputChannel(parseInt(e.target.value, 10))
+                            }
+                            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {Array.from({ length: 16 }, (_, i) => i + 1).map(
+                              (channel) => (
+                                <option
+                                  key={channel}
+                                  value={channel}
+                                  className="bg-white"
+                                >
+                                  Channel {channel}
+                                </option>
+                              )
+                            )}
+                          </select>
+                          <label className="block text-gray-500 text-xs pt-1">
+                            Velocity: {midiVelocity}
+                            <input
+                              type="range"
+                              min="1"
+                              max="127"
+                              step="1"
+                              value={midiVelocity}
+                              onChange={(e) => {
+                                setMidiVelocity(parseInt(e.target.value, 10));
+                              }}
+                              className="w-full h-2 mt-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                          </label>
+                        </div>
+                      ))}
                   </div>
                 </div>
               )}
@@ -1116,12 +4554,57 @@ const ChordScaleRandomizer: React.FC = () => {
         {/* Scale Degree Display */}
         <div className="text-center mb-8">
           <div className="backdrop-blur-lg bg-white/30 rounded-2xl border border-white/40 p-6 mb-4">
-            <div className="text-6xl font-bold text-white drop-shadow-lg mb-2">
-              {formatScaleDegree(currentScaleDegree)}
-            </div>
+            {currentScaleDegree.chord && (
+              <div className="text-2xl font-semibold text-white/90 mb-1">
+                {getRomanNumeral(mode, currentScaleDegree.chord)}
+                {currentScaleDegree.chordTone && (
+                  <span className="text-sm font-medium text-white/70 ml-2">
+                    chord tone
+                  </span>
+                )}
+              </div>
+            )}
+            {isAnnouncingKey ? (
+              <div className="text-5xl font-bold text-white drop-shadow-lg mb-2">
+                New key
+              </div>
+            ) : sequence ? (
+              <div className="flex flex-wrap justify-center gap-x-4 text-5xl font-bold drop-shadow-lg mb-2">
+                {sequence.map((step, index) => (
+                  <span
+                    key={index}
+                    className={
+                      index < sequenceHits.length
+                        ? sequenceHits[index]
+                          ? "text-green-300"
+                          : "text-red-300 line-through"
+                        : index === sequenceHits.length && isPlaying
+                        ? "text-white underline"
+                        : "text-white/60"
+                    }
+                  >
+                    {formatSequenceStep(step)}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <div className="text-6xl font-bold text-white drop-shadow-lg mb-2">
+                {drillMode === "identify" &&
+                isPlaying &&
+                identifyAnswer === null
+                  ? "?"
+                  : formatScaleDegree(currentScaleDegree)}
+              </div>
+            )}
             <div className="text-lg text-white/80">
-              {selectedKey} {mode.charAt(0).toUpperCase() + mode.slice(1)}
+              {spellTonic(selectedKey, mode)} {MODE_DEFINITIONS[mode].label}
             </div>
+            {curriculum && activeLevel && (
+              <div className="text-sm text-white/70 mt-1">
+                Level {curriculumLevel + 1} of {curriculum.levels.length}:{" "}
+                {activeLevel.name}
+              </div>
+            )}
           </div>
 
           {/* Note Detection Indicator */}
@@ -1133,10 +4616,29 @@ const ChordScaleRandomizer: React.FC = () => {
                     ? "bg-blue-500/70 border-blue-400"
                     : noteStatus === "correct"
                     ? "bg-green-500/70 border-green-400"
+                    : noteStatus === "wrongOctave" ||
+                      noteStatus === "outOfTune"
+                    ? "bg-amber-500/70 border-amber-400"
                     : "bg-red-500/70 border-red-400"
                 }`}
               >
                 {detectedNote || "..."}
+                {/* Tuner needle: centre is in tune, each edge 50 cents off */}
+                {detectedCents !== null && (
+                  <div className="flex items-center justify-center gap-2 mt-1 text-xs font-medium">
+                    <div className="relative w-24 h-2 bg-white/20 rounded">
+                      <div className="absolute left-1/2 top-0 w-px h-2 bg-white/60" />
+                      <div
+                        className="absolute top-[-2px] w-1 h-3 bg-white rounded"
+                        style={{ left: `calc(${50 + detectedCents}% - 2px)` }}
+                      />
+                    </div>
+                    <span className="w-10 text-left">
+                      {detectedCents > 0 ? "+" : ""}
+                      {Math.round(detectedCents)}¢
+                    </span>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="px-6 py-3 rounded-xl font-bold text-transparent text-lg border-2 border-transparent">
@@ -1144,6 +4646,43 @@ const ChordScaleRandomizer: React.FC = () => {
               </div>
             )}
           </div>
+
+          {/* On-screen Input */}
+          {(inputSource === "screen" || drillMode === "identify") && (
+            <div className="mt-6">
+              <ScreenInput
+                layout={drillMode === "identify" ? "pad" : screenInputLayout}
+                lowestMidi={
+                  Math.floor((getRootMidi(selectedKey, mode) - 12) / 12) * 12
+                }
+                octaves={3}
+                shortcutMidi={
+                  Math.floor(getRootMidi(selectedKey, mode) / 12) * 12
+                }
+                tonicPitchClass={getKeyPitchClass(selectedKey)}
+                padDegrees={getPadDegrees()}
+                disabled={
+                  !isPlaying ||
+                  (drillMode === "identify" && identifyAnswer !== null)
+                }
+                onPianoKey={answerScreenNote}
+                onPadDegree={
+                  drillMode === "identify" ? answerIdentify : answerPadDegree
+                }
+              />
+              {drillMode === "identify" && (
+                <div className="flex justify-center mt-3">
+                  <button
+                    onClick={replayIdentifyPrompt}
+                    disabled={!isPlaying}
+                    className="px-4 py-2 text-sm bg-white/20 hover:bg-white/30 text-white rounded-lg transition-all disabled:opacity-50"
+                  >
+                    Replay
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Controls */}
@@ -1154,7 +4693,9 @@ const ChordScaleRandomizer: React.FC = () => {
               if (!isPlaying) {
                 // Check microphone access before starting
                 try {
-                  await navigator.mediaDevices.getUserMedia({ audio: true });
+                  if (needsMicrophone) {
+                    await navigator.mediaDevices.getUserMedia({ audio: true });
+                  }
                   // If we get here, mic access is granted
                   // Starting - reset all detection and results
                   setResults([]);
@@ -1163,14 +4704,20 @@ const ChordScaleRandomizer: React.FC = () => {
                   isFirstScaleDegree.current = true;
                   currentDetectedNoteRef.current = null;
                   noteDetectionStartTimeRef.current = null;
+                  identifyTargetRef.current = null;
+                  sequenceRef.current = null;
+                  setSequence(null);
+                  setSequenceHits([]);
+                  setIsAnnouncingKey(false);
                   setHasFoundCorrect(false);
                   setDetectedNote("");
+                  setDetectedCents(null);
                   setNoteStatus("pending");
                   setIsPlaying(true);
                 } catch (error) {
                   // Microphone access denied or not available
                   alert(
-                    "Microphone access is required to use the Scale Degree Randomizer. Please grant microphone permission and try again."
+                    "Microphone access is required to use the Scale Degree Randomizer. Please grant microphone permission and try again, or switch the input source to On-screen in the settings menu."
                   );
                   return;
                 }
@@ -1211,9 +4758,10 @@ const ChordScaleRandomizer: React.FC = () => {
             </div>
             <div className="flex flex-wrap gap-2 justify-center min-h-[2rem]">
               {results.length > 0 ? (
-                results.map((isCorrect, index) => (
+                results.map(({ degreeLabel, correct: isCorrect }, index) => (
                   <div
                     key={index}
+                    title={degreeLabel}
                     className={`w-8 h-8 rounded-lg flex items-center justify-center font-bold text-lg ${
                       isCorrect
                         ? "bg-green-500/70 border-green-400 text-white"
@@ -1229,10 +4777,51 @@ const ChordScaleRandomizer: React.FC = () => {
                 </div>
               )}
             </div>
+            {medianResponseMs !== null && (
+              <div className="mt-3">
+                <div className="text-white text-sm font-medium mb-2">
+                  Median reaction time {(medianResponseMs / 1000).toFixed(2)}s
+                </div>
+                <div className="flex items-end gap-1 h-12">
+                  {responseDistribution.map(({ label, count }) => (
+                    <div
+                      key={label}
+                      className="flex-1 flex flex-col items-center justify-end h-full"
+                    >
+                      <div
+                        className="w-full bg-green-500/70 rounded-t"
+                        style={{
+                          height: `${(count / responseTimes.length) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-1 text-[10px] text-white/70">
+                  {responseDistribution.map(({ label }) => (
+                    <div key={label} className="flex-1 text-center">
+                      {label}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {results.length > 0 && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 justify-center mt-3 text-xs text-white/70">
+                {calculateDegreeAccuracy().map(({ label, accuracy }) => (
+                  <span key={label}>
+                    <strong className="text-white">{label}</strong> {accuracy}%
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Stats Modal */}
+      {showStats && <StatsView onClose={() => setShowStats(false)} />}
+
       {/* User Manual Modal */}
       {showUserManual && (
         <div
@@ -1298,6 +4887,23 @@ const ChordScaleRandomizer: React.FC = () => {
                 </p>
               </div>
 
+              <div>
+                <h3 className="text-lg font-semibold mb-2 text-white/90">
+                  Chord Progressions
+                </h3>
+                <p>
+                  Turn on a chord progression in the settings menu to hear the
+                  prompts over changing chords instead of the key's chord
+                  alone. Enter the progression as Roman numerals, such as{" "}
+                  <strong>I-vi-IV-V</strong> or <strong>ii-V-I</strong>; the
+                  current chord is shown above the scale degree. With{" "}
+                  <strong>Key Degrees</strong> the prompt is still a degree of
+                  the key. With <strong>Chord Tones</strong> it is the 1, 3, 5
+                  or 7 of the chord that is sounding, which is what soloing
+                  over changes asks of you.
+                </p>
+              </div>
+
               <div>
                 <h3 className="text-lg font-semibold mb-2 text-white/90">
                   How to Use
@@ -1331,11 +4937,22 @@ const ChordScaleRandomizer: React.FC = () => {
                   </li>
                   <li>
                     <strong>7.</strong> Adjust the interval speed using the
-                    slider
+                    slider, or switch the timing to <strong>Tempo</strong> to
+                    change prompts every few bars at a set BPM
+                  </li>
+                  <li>
+                    <strong>8.</strong> Switch degree selection to{" "}
+                    <strong>Adaptive</strong> to get the degrees you miss or
+                    answer slowly more often
+                  </li>
+                  <li>
+                    <strong>9.</strong> Open <strong>Stats</strong> to see how
+                    your accuracy develops over time and which degrees, keys
+                    and modes need more work
                   </li>
                   <li>
-                    <strong>8.</strong> Try different keys and modes
-                    (major/minor)
+                    <strong>10.</strong> Try different keys and modes (major,
+                    minor, the church modes, harmonic and melodic minor)
                   </li>
                 </ul>
               </div>
@@ -1355,6 +4972,165 @@ const ChordScaleRandomizer: React.FC = () => {
                     <strong>"3 BELOW"</strong> - 3rd scale degree below the root
                   </li>
                 </ul>
+                <p className="mt-2">
+                  Switch on chromatic degrees in the settings menu to also be
+                  prompted for notes outside the scale, such as{" "}
+                  <strong>"♭7 ABOVE"</strong> in major or{" "}
+                  <strong>"#4 BELOW"</strong> for a blue note.
+                </p>
+                <p className="mt-2">
+                  ABOVE and BELOW are measured from the root of the chord you
+                  hear, within the octave window set in the settings menu. If
+                  you play the right note in the wrong register, the detection
+                  turns amber and tells you whether you were too high or too
+                  low.
+                </p>
+                <p className="mt-2">
+                  The needle under the detected note shows how many cents
+                  sharp or flat you are. Turn on strict intonation in the
+                  settings menu to only accept notes within a set number of
+                  cents of the equal-tempered pitch.
+                </p>
+                <p className="mt-2">
+                  Choose the input profile for your instrument in the settings
+                  menu so its whole range is detected, from a bass's low E to
+                  a piccolo's top notes. The custom profile lets you set the
+                  range, how long a note must be held and the noise gate
+                  yourself.
+                </p>
+                <p className="mt-2">
+                  If you play through an audio interface, pick it as the input
+                  device in the settings menu and check the meter moves when
+                  you play. Calibrate the noise floor while the room is quiet
+                  so background hum isn't picked up as notes.
+                </p>
+                <p className="mt-2">
+                  Keyboard and MIDI guitar players can switch the input source
+                  to MIDI and practice silently. MIDI notes are graded the
+                  moment you play them, in the exact octave. If no MIDI device
+                  is connected, or it is unplugged while you practice, the
+                  microphone is used instead.
+                </p>
+                <p className="mt-2">
+                  No microphone? Set the input source to On-screen and answer
+                  on the degree pad or the piano, by clicking or with your
+                  computer keyboard: number keys play degrees on the pad, and
+                  the home row (A to K, with W, E, T, Y and U for the black
+                  keys) plays the middle octave of the piano, from the C at or
+                  below the root of the key's chord.
+                </p>
+                <p className="mt-2">
+                  To hear the chords on a hardware keyboard or DAW instrument,
+                  turn on MIDI output and pick the port and channel. The chord
+                  is held for the length of the interval and the built-in synth
+                  stays silent.
+                </p>
+                <p className="mt-2">
+                  Timbre D plays a sampled instrument, starting with the
+                  plucked string that comes with the app. Load a folder of
+                  recordings named after their notes (such as C4.wav or
+                  F#3.mp3) or a SoundFont (.sf2) file to use your own, and
+                  each chord note is played from the nearest recording,
+                  retuned. A loaded instrument lasts until the page is
+                  reloaded.
+                </p>
+                <p className="mt-2">
+                  Under <strong>Chord Voicing</strong> you can play the chord
+                  in root position, in a different random inversion each
+                  time, or spread out as a drop-2 voicing, as a triad or a
+                  diatonic seventh chord, with an optional bass note an octave
+                  below the root. Changing voicings keeps you from memorizing
+                  the chord's top note instead of hearing the key.
+                </p>
+                <p className="mt-2">
+                  In <strong>Tempo</strong> timing each prompt lasts one to
+                  four bars of 4/4 at the tempo you set, and chords land
+                  exactly on the downbeat. Turn on the metronome to hear every
+                  beat (the first beat of each bar is higher), and the count-in
+                  to get one bar of clicks before the first prompt. The new
+                  degree appears as its chord sounds.
+                </p>
+                <p className="mt-2">
+                  For intonation work, turn on the <strong>Drone</strong>. The
+                  tonic (or the tonic and its fifth) is held in the chord
+                  timbre for as long as you practice, and the chords are no
+                  longer struck unless a chord progression is on; only the
+                  degree on screen changes. When the key rotates during a
+                  session the drone crossfades to the new tonic; choosing a
+                  key yourself stops playback as usual.
+                </p>
+                <p className="mt-2">
+                  To train recognition instead, set the <strong>Drill</strong>{" "}
+                  to Hear &amp; Name. Each prompt plays the tonic chord and then
+                  a single note, and you name its degree with the pad buttons
+                  or the number keys. The degree is revealed once you answer;
+                  only your first answer counts. Press Replay to hear the
+                  chord and note again. No microphone is needed.
+                </p>
+                <p className="mt-2">
+                  To practice phrases, raise <strong>Sequence</strong> above
+                  single degrees. Each prompt then shows 2 to 6 degrees over one
+                  chord, with arrows for whether each note lies above or below
+                  the root. Play them in order: every new note is one try at the
+                  next step, which turns green when hit and red when missed.
+                  The step sliders limit how many degrees apart neighbouring
+                  notes are; Stepwise keeps the line running one way until it
+                  runs out of room, Random changes direction freely. Each step
+                  counts in the results, and steps you never reached count as
+                  misses. Sequences apply to the See &amp; Play drill.
+                </p>
+                <p className="mt-2">
+                  To get comfortable in every key, turn on{" "}
+                  <strong>Key Rotation</strong>. After the chosen number of
+                  prompts (or bars, in tempo mode) a I–IV–V–I cadence announces
+                  the next key and the prompts carry on in it, without stopping
+                  and with your results still running. Keys can follow the
+                  circle of fifths, go up by semitones, come at random, or cycle
+                  through only the keys you choose. Notes played during the
+                  cadence aren't graded.
+                </p>
+                <p className="mt-2">
+                  To follow a path instead of setting everything yourself, pick
+                  a <strong>Curriculum</strong>. Each level sets the degrees,
+                  directions, keys, mode and interval, and once your session
+                  accuracy reaches the level's pass mark (after enough
+                  prompts to count) you move up to the next level and the
+                  results start over. Beginner to Advanced runs from the tonic
+                  triad to every chromatic degree in every key; you can also
+                  jump to any level. While you follow a curriculum the settings
+                  a level sets are locked, and yours come back in Free
+                  practice. Teachers can write their own curriculum as
+                  a JSON file with a <code>name</code> and a list of{" "}
+                  <code>levels</code>, each with a <code>name</code>,{" "}
+                  <code>degrees</code> (such as 1, 3 or ♭7),{" "}
+                  <code>directions</code> (ABOVE and/or BELOW),{" "}
+                  <code>keys</code> (as named in the
+                  Key menu), <code>mode</code>, <code>interval</code> in
+                  seconds, <code>passThreshold</code> in percent and optionally{" "}
+                  <code>minPrompts</code>, and students load it with Import.
+                </p>
+                <p className="mt-2">
+                  To make your own chord sound, choose <strong>New
+                  Timbre</strong> under the timbres. It starts as a copy of the
+                  selected timbre: mix up to eight partials (waveform, pitch
+                  ratio and level), shape the attack and decay, add a filter,
+                  and press Preview to hear the tonic chord. Saved timbres
+                  appear next to A to D and can be edited or deleted later.
+                </p>
+                <p className="mt-2">
+                  Practicing on speakers? The microphone can hear the chord
+                  and grade it as your answer. Keep echo cancellation on, or
+                  turn on <strong>Ignore Chord Partials</strong> to skip any
+                  note that matches the chord, the drone or their overtones,
+                  even the note you were asked for (play those notes in an
+                  octave below the chord and drone instead), and use the
+                  attack gate to ignore the first moments of each chord.
+                </p>
+                <p className="mt-2">
+                  Only clearly pitched sound is graded. If background noise
+                  shows up as notes, raise the detection confidence in the
+                  settings menu; if your instrument isn't picked up, lower it.
+                </p>
               </div>
 
               <div>
@@ -0,0 +1,143 @@
+import React, { useEffect } from "react";
+
+export type ScreenInputLayout = "piano" | "pad";
+
+export interface PadDegree {
+  label: string;
+  // Semitones above the tonic
+  interval: number;
+  // Computer key that plays it, if any
+  shortcut?: string;
+}
+
+interface ScreenInputProps {
+  layout: ScreenInputLayout;
+  // Piano: first key (a C) and how many octaves to show
+  lowestMidi: number;
+  octaves: number;
+  // Piano: C the computer keys start from
+  shortcutMidi: number;
+  // Piano: keys marked as the tonic
+  tonicPitchClass: number;
+  padDegrees: PadDegree[];
+  disabled: boolean;
+  onPianoKey: (midi: number) => void;
+  onPadDegree: (interval: number) => void;
+}
+
+const WHITE_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+// One octave from C to C on the home row, black keys on the row above
+const PIANO_SHORTCUTS = "awsedftgyhujk";
+
+const ScreenInput: React.FC<ScreenInputProps> = ({
+  layout,
+  lowestMidi,
+  octaves,
+  shortcutMidi,
+  tonicPitchClass,
+  padDegrees,
+  disabled,
+  onPianoKey,
+  onPadDegree,
+}) => {
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave typing in the settings (e.g. the progression field) alone
+      const target = event.target as HTMLElement;
+      if (
+        event.repeat ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey ||
+        ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (layout === "piano") {
+        const index = PIANO_SHORTCUTS.indexOf(key);
+        if (index !== -1) onPianoKey(shortcutMidi + index);
+      } else {
+        const degree = padDegrees.find(({ shortcut }) => shortcut === key);
+        if (degree) onPadDegree(degree.interval);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [layout, shortcutMidi, padDegrees, disabled, onPianoKey, onPadDegree]);
+
+  if (layout === "pad") {
+    return (
+      <div className="grid grid-cols-7 gap-2">
+        {padDegrees.map(({ label, interval, shortcut }) => (
+          <button
+            key={interval}
+            disabled={disabled}
+            onClick={() => onPadDegree(interval)}
+            className="py-3 rounded-lg font-bold text-white text-lg bg-white/20 hover:bg-white/30 border border-white/30 transition-all disabled:opacity-40"
+            title={shortcut ? `Key: ${shortcut}` : undefined}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const keys = Array.from(
+    { length: octaves * 12 + 1 },
+    (_, i) => lowestMidi + i
+  );
+  const whiteKeys = keys.filter((midi) =>
+    WHITE_PITCH_CLASSES.includes(midi % 12)
+  );
+  const whiteWidth = 100 / whiteKeys.length;
+
+  return (
+    <div className="relative h-28 select-none">
+      {whiteKeys.map((midi, i) => (
+        <button
+          key={midi}
+          disabled={disabled}
+          onClick={() => onPianoKey(midi)}
+          className="absolute top-0 h-28 bg-white hover:bg-gray-100 active:bg-gray-200 border border-gray-400 rounded-b-md disabled:opacity-60"
+          style={{ left: `${i * whiteWidth}%`, width: `${whiteWidth}%` }}
+        >
+          {midi % 12 === tonicPitchClass && (
+            <span className="absolute bottom-2 left-1/2 -translate-x-1/2 w-2 h-2 rounded-full bg-blue-500" />
+          )}
+        </button>
+      ))}
+      {keys
+        .filter((midi) => !WHITE_PITCH_CLASSES.includes(midi % 12))
+        .map((midi) => {
+          // A black key sits on the boundary after the white key below it
+          const whiteIndex = whiteKeys.indexOf(midi - 1) + 1;
+          return (
+            <button
+              key={midi}
+              disabled={disabled}
+              onClick={() => onPianoKey(midi)}
+              className="absolute top-0 h-16 z-10 bg-gray-900 hover:bg-gray-700 active:bg-gray-600 rounded-b-md disabled:opacity-60"
+              style={{
+                left: `${(whiteIndex - 0.3) * whiteWidth}%`,
+                width: `${whiteWidth * 0.6}%`,
+              }}
+            >
+              {midi % 12 === tonicPitchClass && (
+                <span className="absolute bottom-2 left-1/2 -translate-x-1/2 w-2 h-2 rounded-full bg-blue-400" />
+              )}
+            </button>
+          );
+        })}
+    </div>
+  );
+};
+
+export default ScreenInput;
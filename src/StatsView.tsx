@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from "react";
+import { MODE_DEFINITIONS } from "./musicTheory";
+import {
+  AccuracySummary,
+  AttemptRecord,
+  clearHistory,
+  getAllAttempts,
+  summarizeBy,
+  summarizeByDay,
+} from "./practiceHistory";
+
+interface StatsViewProps {
+  onClose: () => void;
+}
+
+const SummaryTable: React.FC<{ title: string; rows: AccuracySummary[] }> = ({
+  title,
+  rows,
+}) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-2 text-white/90">{title}</h3>
+    <div className="space-y-1">
+      {rows.map(({ label, attempts, accuracy }) => (
+        <div key={label} className="flex items-center gap-3">
+          <div className="w-28 shrink-0 truncate">{label}</div>
+          <div className="flex-1 h-3 bg-white/10 rounded">
+            <div
+              className="h-3 bg-green-500/70 rounded"
+              style={{ width: `${accuracy}%` }}
+            />
+          </div>
+          <div className="w-24 shrink-0 text-right text-white/70">
+            {accuracy}% of {attempts}
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const StatsView: React.FC<StatsViewProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<AttemptRecord[] | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    getAllAttempts()
+      .then(setRecords)
+      .catch((e) => {
+        console.error("Failed to load practice history:", e);
+        setError("Practice history is not available in this browser.");
+      });
+  }, []);
+
+  const overall =
+    records && records.length > 0 ? summarizeBy(records, () => "All")[0] : null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="backdrop-blur-xl bg-white/20 rounded-3xl border border-white/30 shadow-2xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Stats</h2>
+          <div className="flex gap-2">
+            {overall && (
+              <button
+                onClick={async () => {
+                  if (window.confirm("Delete your entire practice history?")) {
+                    try {
+                      await clearHistory();
+                      setRecords([]);
+                    } catch (e) {
+                      console.error("Failed to clear practice history:", e);
+                      alert("Your practice history could not be deleted.");
+                    }
+                  }
+                }}
+                className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg border border-white/30 transition-all"
+              >
+                Clear History
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg border border-white/30 transition-all"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="text-white space-y-6 text-sm">
+          {error ? (
+            <p>{error}</p>
+          ) : records === null ? (
+            <p className="text-white/70">Loading...</p>
+          ) : !overall ? (
+            <p className="text-white/70">
+              No attempts recorded yet. Your history will appear here after your
+              first practice session.
+            </p>
+          ) : (
+            <>
+              <p>
+                <strong>{overall.attempts}</strong> prompts answered,{" "}
+                <strong>{overall.accuracy}%</strong> accurate overall.
+              </p>
+              <SummaryTable
+                title="Accuracy Over Time"
+                rows={summarizeByDay(records).slice(-14)}
+              />
+              <SummaryTable
+                title="By Degree"
+                rows={summarizeBy(records, (record) =>
+                  [record.degree, record.direction].filter(Boolean).join(" ")
+                ).sort((a, b) => a.label.localeCompare(b.label))}
+              />
+              <SummaryTable
+                title="By Key"
+                rows={summarizeBy(records, (record) => record.key)}
+              />
+              <SummaryTable
+                title="By Mode"
+                rows={summarizeBy(
+                  records,
+                  (record) =>
+                    MODE_DEFINITIONS[record.mode]?.label ?? record.mode
+                )}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsView;
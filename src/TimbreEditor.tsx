@@ -0,0 +1,291 @@
+import React from "react";
+import {
+  MAX_PARTIALS,
+  TIMBRE_FILTER_TYPES,
+  TimbreFilterType,
+  TimbrePartial,
+  UserTimbre,
+  WAVEFORMS,
+  Waveform,
+} from "./timbres";
+
+interface TimbreEditorProps {
+  draft: UserTimbre;
+  // Whether the draft replaces a saved timbre, which can then be deleted
+  isSaved: boolean;
+  previewDisabled: boolean;
+  onChange: (draft: UserTimbre) => void;
+  onPreview: () => void;
+  onSave: () => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+const FILTER_LABELS: Record<TimbreFilterType, string> = {
+  lowpass: "Low-pass",
+  highpass: "High-pass",
+  bandpass: "Band-pass",
+};
+
+const SLIDER_CLASS =
+  "w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider";
+const BUTTON_CLASS =
+  "flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50";
+
+const TimbreEditor: React.FC<TimbreEditorProps> = ({
+  draft,
+  isSaved,
+  previewDisabled,
+  onChange,
+  onPreview,
+  onSave,
+  onDelete,
+  onCancel,
+}) => {
+  const updatePartial = (index: number, changes: Partial<TimbrePartial>) => {
+    onChange({
+      ...draft,
+      partials: draft.partials.map((partial, i) =>
+        i === index ? { ...partial, ...changes } : partial
+      ),
+    });
+  };
+
+  const addPartial = () => {
+    const highest = Math.max(...draft.partials.map(({ ratio }) => ratio));
+    onChange({
+      ...draft,
+      partials: [
+        ...draft.partials,
+        {
+          ratio: Math.min(Math.floor(highest) + 1, 8),
+          waveform: "sine",
+          level: 0.05,
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <input
+        type="text"
+        value={draft.name}
+        maxLength={20}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        // Space types a space here rather than starting playback
+        onKeyDown={(e) => e.stopPropagation()}
+        placeholder="Timbre name"
+        className="w-full p-2 bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      {draft.partials.map((partial, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={partial.waveform}
+              onChange={(e) =>
+                updatePartial(index, { waveform: e.target.value as Waveform })
+              }
+              className="flex-1 p-1 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {WAVEFORMS.map((waveform) => (
+                <option key={waveform} value={waveform} className="bg-white">
+                  {waveform.charAt(0).toUpperCase() + waveform.slice(1)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                onChange({
+                  ...draft,
+                  partials: draft.partials.filter((_, i) => i !== index),
+                })
+              }
+              disabled={draft.partials.length === 1}
+              className="px-2 py-1 rounded-lg text-sm text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+              title="Remove partial"
+            >
+              ✕
+            </button>
+          </div>
+          <label className="block text-xs text-gray-500">
+            Ratio: {partial.ratio}×
+            <input
+              type="range"
+              min="0.5"
+              max="8"
+              step="0.25"
+              value={partial.ratio}
+              onChange={(e) =>
+                updatePartial(index, { ratio: parseFloat(e.target.value) })
+              }
+              className={SLIDER_CLASS}
+            />
+          </label>
+          <label className="block text-xs text-gray-500">
+            Level: {partial.level.toFixed(2)}
+            <input
+              type="range"
+              min="0.02"
+              max="0.5"
+              step="0.01"
+              value={partial.level}
+              onChange={(e) =>
+                updatePartial(index, { level: parseFloat(e.target.value) })
+              }
+              className={SLIDER_CLASS}
+            />
+          </label>
+        </div>
+      ))}
+      <button
+        onClick={addPartial}
+        disabled={draft.partials.length >= MAX_PARTIALS}
+        className={`w-full ${BUTTON_CLASS}`}
+      >
+        Add Partial
+      </button>
+
+      <label className="block text-xs text-gray-500">
+        Attack: {Math.round(draft.envelope.attack * 1000)} ms
+        <input
+          type="range"
+          min="0.005"
+          max="0.5"
+          step="0.005"
+          value={draft.envelope.attack}
+          onChange={(e) =>
+            onChange({
+              ...draft,
+              envelope: {
+                ...draft.envelope,
+                attack: parseFloat(e.target.value),
+              },
+            })
+          }
+          className={SLIDER_CLASS}
+        />
+      </label>
+      <label className="block text-xs text-gray-500">
+        Decay: {draft.envelope.decay.toFixed(1)} s
+        <input
+          type="range"
+          min="0.2"
+          max="6"
+          step="0.1"
+          value={draft.envelope.decay}
+          onChange={(e) =>
+            onChange({
+              ...draft,
+              envelope: {
+                ...draft.envelope,
+                decay: parseFloat(e.target.value),
+              },
+            })
+          }
+          className={SLIDER_CLASS}
+        />
+      </label>
+
+      <select
+        value={draft.filter?.type ?? ""}
+        onChange={(e) => {
+          const type = e.target.value as TimbreFilterType | "";
+          onChange({
+            ...draft,
+            filter: type
+              ? { frequency: 2000, q: 1, ...draft.filter, type }
+              : null,
+          });
+        }}
+        className="w-full p-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="" className="bg-white">
+          No Filter
+        </option>
+        {TIMBRE_FILTER_TYPES.map((type) => (
+          <option key={type} value={type} className="bg-white">
+            {FILTER_LABELS[type]}
+          </option>
+        ))}
+      </select>
+      {draft.filter && (
+        <>
+          <label className="block text-xs text-gray-500">
+            Cutoff: {draft.filter.frequency} Hz
+            <input
+              type="range"
+              min="100"
+              max="8000"
+              step="50"
+              value={draft.filter.frequency}
+              onChange={(e) =>
+                onChange({
+                  ...draft,
+                  filter: draft.filter && {
+                    ...draft.filter,
+                    frequency: parseInt(e.target.value, 10),
+                  },
+                })
+              }
+              className={SLIDER_CLASS}
+            />
+          </label>
+          <label className="block text-xs text-gray-500">
+            Resonance: {draft.filter.q.toFixed(1)}
+            <input
+              type="range"
+              min="0.1"
+              max="10"
+              step="0.1"
+              value={draft.filter.q}
+              onChange={(e) =>
+                onChange({
+                  ...draft,
+                  filter: draft.filter && {
+                    ...draft.filter,
+                    q: parseFloat(e.target.value),
+                  },
+                })
+              }
+              className={SLIDER_CLASS}
+            />
+          </label>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onPreview}
+          disabled={previewDisabled}
+          className={BUTTON_CLASS}
+        >
+          Preview
+        </button>
+        <button
+          onClick={onSave}
+          disabled={draft.name.trim() === ""}
+          className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+      <div className="flex gap-2">
+        {isSaved && (
+          <button
+            onClick={onDelete}
+            className="flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-all bg-red-50 text-red-600 hover:bg-red-100"
+          >
+            Delete
+          </button>
+        )}
+        <button onClick={onCancel} className={BUTTON_CLASS}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimbreEditor;
@@ -0,0 +1,49 @@
+import {
+  getItemKey,
+  getItemWeight,
+  pickWeighted,
+  recordAttempt,
+  SelectionStats,
+} from "./adaptiveSelection";
+
+const item = getItemKey("C", "major", "6", "ABOVE");
+
+test("tracks errors and the mean response time of correct attempts", () => {
+  let stats = recordAttempt({}, item, true, 1000, 0);
+  stats = recordAttempt(stats, item, false, null, 1);
+  stats = recordAttempt(stats, item, true, 2000, 2);
+  expect(stats[item]).toEqual({
+    attempts: 3,
+    errors: 1,
+    meanResponseMs: 1500,
+    box: 2,
+    lastSeen: 2,
+  });
+});
+
+test("weights missed items above mastered ones", () => {
+  let missed: SelectionStats = {};
+  let mastered: SelectionStats = {};
+  for (let i = 0; i < 4; i++) {
+    missed = recordAttempt(missed, item, false, null, 0);
+    mastered = recordAttempt(mastered, item, true, 800, 0);
+  }
+  expect(getItemWeight(missed[item], 1000)).toBeGreaterThan(
+    getItemWeight(mastered[item], 1000)
+  );
+});
+
+test("brings mastered items back once they are due", () => {
+  let stats: SelectionStats = {};
+  for (let i = 0; i < 3; i++) {
+    stats = recordAttempt(stats, item, true, 800, 0);
+  }
+  expect(getItemWeight(stats[item], 24 * 60 * 60 * 1000)).toBeGreaterThan(
+    getItemWeight(stats[item], 1000)
+  );
+});
+
+test("picks items in proportion to their weights", () => {
+  expect(pickWeighted(["a", "b", "c"], [1, 0, 3], () => 0.2)).toBe("a");
+  expect(pickWeighted(["a", "b", "c"], [1, 0, 3], () => 0.3)).toBe("c");
+});
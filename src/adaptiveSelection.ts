@@ -0,0 +1,125 @@
+export type SelectionStrategy = "uniform" | "adaptive";
+
+export interface ItemStats {
+  attempts: number;
+  errors: number;
+  // Mean time to the first correct note over the correct attempts
+  meanResponseMs: number | null;
+  // Leitner box: 1 after a miss, up to MAX_BOX after repeated hits
+  box: number;
+  lastSeen: number;
+}
+
+// Keyed by getItemKey so that the same degree is tracked separately per
+// key, mode and direction
+export type SelectionStats = Record<string, ItemStats>;
+
+const STORAGE_KEY = "scaleDegreeRandomizer_selectionStats";
+const MAX_BOX = 5;
+
+// How long an item rests after a run of correct answers before it is due
+// again, indexed by box
+const REVIEW_INTERVALS_MS = [0, 0, 60000, 5 * 60000, 30 * 60000, 86400000];
+
+// Response time counted as fluent; slower answers raise an item's weight
+const TARGET_RESPONSE_MS = 1500;
+
+export const getItemKey = (
+  keyName: string,
+  mode: string,
+  degreeLabel: string,
+  direction?: string
+): string => [keyName, mode, degreeLabel, direction ?? ""].join("|");
+
+export const loadSelectionStats = (): SelectionStats => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed === "object") {
+        return parsed;
+      }
+    } catch (e) {
+      // Ignore malformed saved value
+    }
+  }
+  return {};
+};
+
+export const saveSelectionStats = (stats: SelectionStats) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+};
+
+export const recordAttempt = (
+  stats: SelectionStats,
+  itemKey: string,
+  correct: boolean,
+  responseMs: number | null,
+  now: number = Date.now()
+): SelectionStats => {
+  const previous: ItemStats = stats[itemKey] ?? {
+    attempts: 0,
+    errors: 0,
+    meanResponseMs: null,
+    box: 1,
+    lastSeen: now,
+  };
+  const correctAttempts = previous.attempts - previous.errors;
+
+  let meanResponseMs = previous.meanResponseMs;
+  if (correct && responseMs !== null) {
+    meanResponseMs =
+      meanResponseMs === null
+        ? responseMs
+        : (meanResponseMs * correctAttempts + responseMs) /
+          (correctAttempts + 1);
+  }
+
+  return {
+    ...stats,
+    [itemKey]: {
+      attempts: previous.attempts + 1,
+      errors: previous.errors + (correct ? 0 : 1),
+      meanResponseMs,
+      box: correct ? Math.min(previous.box + 1, MAX_BOX) : 1,
+      lastSeen: now,
+    },
+  };
+};
+
+// Relative chance of prompting an item: missed and slow items come up more
+// often, and items that have been answered well rest until they are due
+export const getItemWeight = (
+  itemStats: ItemStats | undefined,
+  now: number = Date.now()
+): number => {
+  // Items never prompted are due, with an even chance of being missed
+  if (!itemStats) return (0.1 + 0.5) * 2;
+
+  // Smoothed so a single lucky or unlucky attempt doesn't dominate
+  const errorRate = (itemStats.errors + 1) / (itemStats.attempts + 2);
+  const slowness =
+    itemStats.meanResponseMs === null
+      ? 1
+      : Math.min(
+          Math.max(itemStats.meanResponseMs / TARGET_RESPONSE_MS, 0.5),
+          2
+        );
+  const isDue = now - itemStats.lastSeen >= REVIEW_INTERVALS_MS[itemStats.box];
+
+  return (0.1 + errorRate) * slowness * (isDue ? 2 : 0.25);
+};
+
+export const pickWeighted = <T>(
+  items: T[],
+  weights: number[],
+  random: () => number = Math.random
+): T => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) return items[i];
+  }
+  return items[items.length - 1];
+};
@@ -0,0 +1,42 @@
+import {
+  BUILT_IN_CURRICULUM,
+  isValidCurriculum,
+  isValidCustomCurriculum,
+  resolveLevelDegrees,
+} from "./curricula";
+
+test("resolves diatonic and chromatic degree labels for the mode", () => {
+  expect(resolveLevelDegrees(["1", "5", "♭7", "b3"], "major")).toEqual([
+    { degree: 1, alteration: 0 },
+    { degree: 5, alteration: 0 },
+    { degree: 7, alteration: -1 },
+    { degree: 3, alteration: -1 },
+  ]);
+  expect(resolveLevelDegrees(["♮6"], "minor")).toEqual([
+    { degree: 6, alteration: 1 },
+  ]);
+  // ♭7 is diatonic in minor, where it is written as 7
+  expect(resolveLevelDegrees(["1", "♭7"], "minor")).toBeNull();
+  expect(resolveLevelDegrees(["9"], "major")).toBeNull();
+});
+
+test("accepts the built-in track and rejects malformed curricula", () => {
+  expect(isValidCurriculum(BUILT_IN_CURRICULUM)).toBe(true);
+
+  const [level] = BUILT_IN_CURRICULUM.levels;
+  const withLevel = (changes: object) => ({
+    name: "Test",
+    levels: [{ ...level, ...changes }],
+  });
+  expect(isValidCurriculum(withLevel({ degrees: ["1"] }))).toBe(false);
+  expect(isValidCurriculum(withLevel({ directions: ["UP"] }))).toBe(false);
+  expect(isValidCurriculum(withLevel({ keys: ["H"] }))).toBe(false);
+  expect(isValidCurriculum(withLevel({ mode: "ionian" }))).toBe(false);
+  expect(isValidCurriculum(withLevel({ passThreshold: 120 }))).toBe(false);
+  expect(isValidCurriculum({ name: "Empty", levels: [] })).toBe(false);
+
+  expect(
+    isValidCustomCurriculum({ ...BUILT_IN_CURRICULUM, id: "custom-abc" })
+  ).toBe(true);
+  expect(isValidCustomCurriculum(BUILT_IN_CURRICULUM)).toBe(false);
+});
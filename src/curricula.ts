@@ -0,0 +1,207 @@
+import {
+  Direction,
+  KEYS,
+  Mode,
+  getAlteredDegree,
+  getChromaticIntervals,
+  getIntervalLabel,
+  isMode,
+} from "./musicTheory";
+
+export interface CurriculumLevel {
+  name: string;
+  // "1"–"7" are the mode's own degrees; other labels name chromatic degrees
+  // the way the app shows them in that mode, e.g. "♭7" or "#4"
+  degrees: string[];
+  directions: Direction[];
+  // Named as in the Key menu; more than one rotates through them
+  keys: string[];
+  mode: Mode;
+  // Seconds per prompt
+  interval: number;
+  // Session accuracy, in percent, that moves the student up a level
+  passThreshold: number;
+  // Prompts answered before the accuracy counts
+  minPrompts?: number;
+}
+
+export interface Curriculum {
+  name: string;
+  levels: CurriculumLevel[];
+}
+
+export type CustomCurriculumId = `custom-${string}`;
+
+export interface CustomCurriculum extends Curriculum {
+  id: CustomCurriculumId;
+}
+
+export const BUILT_IN_CURRICULUM_ID = "built-in";
+export const DEFAULT_MIN_PROMPTS = 10;
+
+const SCALE_DEGREES = ["1", "2", "3", "4", "5", "6", "7"];
+const BOTH_WAYS: Direction[] = ["ABOVE", "BELOW"];
+
+// Beginner to advanced: the tonic triad first, then the scale around it,
+// minor, the blue notes and finally every chromatic degree in every key
+export const BUILT_IN_CURRICULUM: Curriculum = {
+  name: "Beginner to Advanced",
+  levels: [
+    {
+      name: "Tonic triad",
+      degrees: ["1", "3", "5"],
+      directions: ["ABOVE"],
+      keys: ["C"],
+      mode: "major",
+      interval: 5,
+      passThreshold: 80,
+    },
+    {
+      name: "Triad both ways",
+      degrees: ["1", "3", "5"],
+      directions: BOTH_WAYS,
+      keys: ["C", "G"],
+      mode: "major",
+      interval: 4,
+      passThreshold: 80,
+    },
+    {
+      name: "Major pentatonic",
+      degrees: ["1", "2", "3", "5", "6"],
+      directions: BOTH_WAYS,
+      keys: ["C", "G", "F"],
+      mode: "major",
+      interval: 4,
+      passThreshold: 80,
+    },
+    {
+      name: "Major scale",
+      degrees: SCALE_DEGREES,
+      directions: BOTH_WAYS,
+      keys: ["C", "G", "D", "F", "A#/Bb"],
+      mode: "major",
+      interval: 3,
+      passThreshold: 80,
+      minPrompts: 20,
+    },
+    {
+      name: "Natural minor",
+      degrees: SCALE_DEGREES,
+      directions: BOTH_WAYS,
+      keys: ["A", "E", "D", "G"],
+      mode: "minor",
+      interval: 3,
+      passThreshold: 80,
+      minPrompts: 20,
+    },
+    {
+      name: "Blue notes",
+      degrees: [...SCALE_DEGREES, "♭3", "♭7"],
+      directions: BOTH_WAYS,
+      keys: ["C", "F", "A#/Bb", "D#/Eb", "G", "D"],
+      mode: "major",
+      interval: 3,
+      passThreshold: 85,
+      minPrompts: 20,
+    },
+    {
+      name: "Chromatic in every key",
+      degrees: [...SCALE_DEGREES, "♭2", "♭3", "#4", "♭6", "♭7"],
+      directions: BOTH_WAYS,
+      keys: KEYS,
+      mode: "major",
+      interval: 2,
+      passThreshold: 85,
+      minPrompts: 30,
+    },
+  ],
+};
+
+// A level's degrees as the prompt pool, or null if a label doesn't name a
+// degree of the mode. "b" may be typed for "♭".
+export const resolveLevelDegrees = (
+  labels: string[],
+  mode: Mode
+): { degree: number; alteration: number }[] | null => {
+  const degrees = labels.map((label) => {
+    const normalized = label.trim().replace(/^b/, "♭");
+    if (/^[1-7]$/.test(normalized)) {
+      return { degree: parseInt(normalized, 10), alteration: 0 };
+    }
+    const interval = getChromaticIntervals(mode).find(
+      (chromatic) => getIntervalLabel(chromatic, mode) === normalized
+    );
+    return interval === undefined ? null : getAlteredDegree(interval, mode);
+  });
+  return degrees.every((degree) => degree !== null)
+    ? (degrees as { degree: number; alteration: number }[])
+    : null;
+};
+
+const isValidLevel = (value: unknown): value is CurriculumLevel => {
+  if (!value || typeof value !== "object") return false;
+  const {
+    name,
+    degrees,
+    directions,
+    keys,
+    mode,
+    interval,
+    passThreshold,
+    minPrompts,
+  } = value as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    typeof mode !== "string" ||
+    !isMode(mode) ||
+    !Array.isArray(degrees) ||
+    !degrees.every((degree) => typeof degree === "string") ||
+    // A single degree would leave nothing to vary between prompts
+    new Set(degrees).size < 2 ||
+    !resolveLevelDegrees(degrees, mode)
+  ) {
+    return false;
+  }
+  return (
+    Array.isArray(directions) &&
+    directions.length > 0 &&
+    directions.every(
+      (direction) => direction === "ABOVE" || direction === "BELOW"
+    ) &&
+    Array.isArray(keys) &&
+    keys.length > 0 &&
+    keys.every((key) => KEYS.includes(key)) &&
+    typeof interval === "number" &&
+    interval >= 1 &&
+    interval <= 5 &&
+    typeof passThreshold === "number" &&
+    passThreshold > 0 &&
+    passThreshold <= 100 &&
+    (minPrompts === undefined ||
+      (typeof minPrompts === "number" &&
+        Number.isInteger(minPrompts) &&
+        minPrompts > 0))
+  );
+};
+
+export const isValidCurriculum = (value: unknown): value is Curriculum => {
+  if (!value || typeof value !== "object") return false;
+  const { name, levels } = value as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    Array.isArray(levels) &&
+    levels.length > 0 &&
+    levels.every(isValidLevel)
+  );
+};
+
+export const isValidCustomCurriculum = (
+  value: unknown
+): value is CustomCurriculum => {
+  if (!isValidCurriculum(value)) return false;
+  const { id } = value as Curriculum & { id?: unknown };
+  return typeof id === "string" && id.startsWith("custom-");
+};
+
+export const createCustomCurriculumId = (): CustomCurriculumId =>
+  `custom-${Date.now().toString(36)}`;
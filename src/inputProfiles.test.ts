@@ -0,0 +1,45 @@
+import {
+  DEFAULT_CUSTOM_PROFILE,
+  INPUT_PROFILES,
+  getMinBufferSize,
+  isValidInputProfile,
+} from "./inputProfiles";
+
+test("built-in profiles are valid and buffer two periods of their lowest note", () => {
+  for (const profile of [
+    ...Object.values(INPUT_PROFILES),
+    DEFAULT_CUSTOM_PROFILE,
+  ]) {
+    expect(isValidInputProfile(profile)).toBe(true);
+    expect(profile.bufferSize).toBeGreaterThanOrEqual(
+      (2 * 48000) / profile.minFrequency
+    );
+  }
+  expect(getMinBufferSize(80)).toBe(2048);
+  expect(getMinBufferSize(20)).toBe(8192);
+});
+
+test("rejects malformed custom profiles", () => {
+  expect(isValidInputProfile(null)).toBe(false);
+  expect(
+    isValidInputProfile({ ...DEFAULT_CUSTOM_PROFILE, bufferSize: 3000 })
+  ).toBe(false);
+  expect(
+    isValidInputProfile({
+      ...DEFAULT_CUSTOM_PROFILE,
+      minFrequency: 900,
+      maxFrequency: 800,
+    })
+  ).toBe(false);
+  expect(
+    isValidInputProfile({ ...DEFAULT_CUSTOM_PROFILE, holdMs: "150" })
+  ).toBe(false);
+  // 1024 samples can't hold two periods of 20 Hz
+  expect(
+    isValidInputProfile({
+      ...DEFAULT_CUSTOM_PROFILE,
+      minFrequency: 20,
+      bufferSize: 1024,
+    })
+  ).toBe(false);
+});
@@ -0,0 +1,108 @@
+export type InputProfileId =
+  "guitar" | "bass" | "voice" | "highWinds" | "custom";
+
+export interface InputProfile {
+  minFrequency: number;
+  maxFrequency: number;
+  // Analyser fftSize; needs to hold at least two periods of the lowest note
+  bufferSize: number;
+  // How long a note must be held before it is graded
+  holdMs: number;
+  // RMS level below which the input is treated as silence
+  noiseGate: number;
+}
+
+export const BUFFER_SIZES = [1024, 2048, 4096, 8192];
+// Buffers are sized for inputs running at up to this rate
+const MAX_SAMPLE_RATE = 48000;
+
+// Widest range the detector is allowed to search, for custom profiles
+export const MIN_FREQUENCY = 20;
+export const MAX_FREQUENCY = 5000;
+
+export const INPUT_PROFILES: Record<
+  Exclude<InputProfileId, "custom">,
+  InputProfile & { label: string }
+> = {
+  guitar: {
+    label: "Guitar",
+    minFrequency: 75,
+    maxFrequency: 1400,
+    bufferSize: 2048,
+    holdMs: 150,
+    noiseGate: 0.01,
+  },
+  bass: {
+    label: "Bass",
+    minFrequency: 28,
+    maxFrequency: 450,
+    bufferSize: 4096,
+    holdMs: 200,
+    noiseGate: 0.01,
+  },
+  // Longer hold so vibrato and scoops settle before grading
+  voice: {
+    label: "Voice",
+    minFrequency: 80,
+    maxFrequency: 1100,
+    bufferSize: 2048,
+    holdMs: 200,
+    noiseGate: 0.015,
+  },
+  highWinds: {
+    label: "High Winds",
+    minFrequency: 250,
+    maxFrequency: 4500,
+    bufferSize: 1024,
+    holdMs: 100,
+    noiseGate: 0.01,
+  },
+};
+
+// Starting point for the editable profile, roughly the range of the old
+// fixed detector
+export const DEFAULT_CUSTOM_PROFILE: InputProfile = {
+  minFrequency: 80,
+  maxFrequency: 800,
+  bufferSize: 2048,
+  holdMs: 150,
+  noiseGate: 0.01,
+};
+
+export const INPUT_PROFILE_IDS: InputProfileId[] = [
+  "guitar",
+  "bass",
+  "voice",
+  "highWinds",
+  "custom",
+];
+
+// Smallest buffer that holds two periods of the lowest note, which the
+// detector needs to find it
+export const getMinBufferSize = (minFrequency: number): number =>
+  BUFFER_SIZES.find((size) => size >= (2 * MAX_SAMPLE_RATE) / minFrequency) ??
+  BUFFER_SIZES[BUFFER_SIZES.length - 1];
+
+export const isInputProfileId = (value: string): value is InputProfileId =>
+  INPUT_PROFILE_IDS.includes(value as InputProfileId);
+
+export const isValidInputProfile = (value: unknown): value is InputProfile => {
+  if (!value || typeof value !== "object") return false;
+  const { minFrequency, maxFrequency, bufferSize, holdMs, noiseGate } =
+    value as Record<string, unknown>;
+  return (
+    typeof minFrequency === "number" &&
+    typeof maxFrequency === "number" &&
+    minFrequency >= MIN_FREQUENCY &&
+    maxFrequency <= MAX_FREQUENCY &&
+    minFrequency < maxFrequency &&
+    BUFFER_SIZES.includes(bufferSize as number) &&
+    (bufferSize as number) >= getMinBufferSize(minFrequency) &&
+    typeof holdMs === "number" &&
+    holdMs >= 0 &&
+    holdMs <= 1000 &&
+    typeof noiseGate === "number" &&
+    noiseGate >= 0 &&
+    noiseGate <= 0.5
+  );
+};
@@ -0,0 +1,46 @@
+import {
+  midiNoteToPitch,
+  noteOffMessage,
+  noteOnMessage,
+  parseMidiMessage,
+} from "./midi";
+
+test("parses note on and off messages with their channel", () => {
+  expect(parseMidiMessage([0x90, 60, 100])).toEqual({
+    type: "noteOn",
+    note: 60,
+    velocity: 100,
+    channel: 1,
+  });
+  expect(parseMidiMessage([0x8a, 64, 0])).toEqual({
+    type: "noteOff",
+    note: 64,
+    velocity: 0,
+    channel: 11,
+  });
+  // A note-on with zero velocity releases the note
+  expect(parseMidiMessage([0x93, 67, 0])?.type).toBe("noteOff");
+  expect(parseMidiMessage([0xb0, 64, 127])).toBe(null);
+  expect(parseMidiMessage([0xf8])).toBe(null);
+});
+
+test("maps MIDI notes to exact pitches", () => {
+  expect(midiNoteToPitch(60)).toEqual({
+    pitchClass: 0,
+    octave: 4,
+    midi: 60,
+    cents: 0,
+  });
+  expect(midiNoteToPitch(21)).toMatchObject({ pitchClass: 9, octave: 0 });
+});
+
+test("builds note messages for a channel", () => {
+  expect(noteOnMessage(60, 80, 1)).toEqual([0x90, 60, 80]);
+  expect(noteOffMessage(60, 16)).toEqual([0x8f, 60, 0]);
+  expect(parseMidiMessage(noteOnMessage(67, 100, 5))).toEqual({
+    type: "noteOn",
+    note: 67,
+    velocity: 100,
+    channel: 5,
+  });
+});
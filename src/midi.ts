@@ -0,0 +1,92 @@
+import { DetectedPitch } from "./pitchDetection";
+
+// The subset of the Web MIDI API used here; TypeScript's DOM library doesn't
+// declare it yet
+export interface MidiMessageEvent {
+  data: Uint8Array;
+}
+
+export interface MidiPort {
+  id: string;
+  name: string | null;
+  state: "connected" | "disconnected";
+}
+
+export interface MidiInputPort extends MidiPort {
+  onmidimessage: ((event: MidiMessageEvent) => void) | null;
+}
+
+export interface MidiOutputPort extends MidiPort {
+  // timestamp is on the performance.now() clock; omitted means now
+  send: (data: number[], timestamp?: number) => void;
+}
+
+export interface MidiAccess {
+  inputs: ReadonlyMap<string, MidiInputPort>;
+  outputs: ReadonlyMap<string, MidiOutputPort>;
+  onstatechange: ((event: Event) => void) | null;
+}
+
+export interface MidiNoteEvent {
+  type: "noteOn" | "noteOff";
+  note: number;
+  velocity: number;
+  // 1-16
+  channel: number;
+}
+
+export const isMidiSupported = (): boolean =>
+  typeof navigator !== "undefined" && "requestMIDIAccess" in navigator;
+
+export const requestMidiAccess = async (): Promise<MidiAccess | null> => {
+  if (!isMidiSupported()) return null;
+  try {
+    return await (
+      navigator as Navigator & { requestMIDIAccess: () => Promise<MidiAccess> }
+    ).requestMIDIAccess();
+  } catch (error) {
+    console.error("MIDI access denied:", error);
+    return null;
+  }
+};
+
+// Note on/off messages only; everything else (controllers, clock, sysex) is
+// ignored. A note-on with velocity 0 is a note-off by convention.
+export const parseMidiMessage = (
+  data: ArrayLike<number>
+): MidiNoteEvent | null => {
+  if (data.length < 3) return null;
+  const command = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const note = data[1];
+  const velocity = data[2];
+
+  if (command === 0x90 && velocity > 0) {
+    return { type: "noteOn", note, velocity, channel };
+  }
+  if (command === 0x80 || command === 0x90) {
+    return { type: "noteOff", note, velocity, channel };
+  }
+  return null;
+};
+
+// MIDI notes are exact, so there's no tuning offset to report
+export const midiNoteToPitch = (note: number): DetectedPitch => ({
+  pitchClass: note % 12,
+  octave: Math.floor(note / 12) - 1,
+  midi: note,
+  cents: 0,
+});
+
+// Channels are 1-16, as shown to the user
+export const noteOnMessage = (
+  note: number,
+  velocity: number,
+  channel: number
+): number[] => [0x90 | (channel - 1), note, velocity];
+
+export const noteOffMessage = (note: number, channel: number): number[] => [
+  0x80 | (channel - 1),
+  note,
+  0,
+];
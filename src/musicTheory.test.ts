@@ -0,0 +1,117 @@
+import {
+  getAlteredDegree,
+  getChromaticIntervals,
+  getDegreeLabel,
+  getDiatonicChord,
+  getExpectedNote,
+  getIntervalLabel,
+  getNextKey,
+  getRomanNumeral,
+  parseProgression,
+  spellPitchClass,
+  spellScale,
+  spellTonic,
+  voiceChord,
+} from "./musicTheory";
+
+test("spells flat keys with flats", () => {
+  expect(spellScale("D#/Eb", "major")).toEqual([
+    "E♭",
+    "F",
+    "G",
+    "A♭",
+    "B♭",
+    "C",
+    "D",
+  ]);
+  expect(spellTonic("C#/Db", "major")).toBe("D♭");
+  expect(spellTonic("A#/Bb", "minor")).toBe("B♭");
+});
+
+test("picks the spelling with fewer accidentals for each mode", () => {
+  expect(spellTonic("C#/Db", "minor")).toBe("C#");
+  expect(spellTonic("G#/Ab", "minor")).toBe("G#");
+  expect(spellTonic("F#/Gb", "major")).toBe("G♭");
+});
+
+test("names chromatic notes after the degree they alter", () => {
+  expect(getDegreeLabel(10, "C", "major")).toBe("♭7");
+  expect(spellPitchClass(10, "C", "major")).toBe("B♭");
+  expect(spellPitchClass(6, "C", "major")).toBe("F#");
+  expect(spellPitchClass(8, "D#/Eb", "major")).toBe("A♭");
+});
+
+test("uses double accidentals where the letter requires them", () => {
+  // ♭2 in G♭ major is A♭♭, 4 is C♭
+  expect(spellPitchClass(7, "F#/Gb", "major")).toBe("A♭♭");
+  expect(spellPitchClass(11, "F#/Gb", "major")).toBe("C♭");
+});
+
+test("labels degrees with the mode's own alterations", () => {
+  expect(spellScale("D", "dorian")).toEqual([
+    "D",
+    "E",
+    "F",
+    "G",
+    "A",
+    "B",
+    "C",
+  ]);
+  expect(getDegreeLabel(11, "D", "dorian")).toBe("♮6");
+  expect(getDegreeLabel(0, "D", "dorian")).toBe("♭7");
+  expect(getDegreeLabel(5, "B", "locrian")).toBe("♭5");
+});
+
+test("spells harmonic minor in the natural minor key signature", () => {
+  expect(spellScale("G#/Ab", "harmonicMinor")[6]).toBe("Fx");
+  expect(spellPitchClass(11, "C", "harmonicMinor")).toBe("B");
+});
+
+test("builds the tonic triad from the mode", () => {
+  expect(getDiatonicChord("locrian")).toEqual([0, 3, 6]);
+  expect(getDiatonicChord("lydian")).toEqual([0, 4, 7]);
+  expect(getDiatonicChord("phrygian")).toEqual([0, 3, 7]);
+});
+
+test("maps chromatic intervals onto altered diatonic degrees", () => {
+  expect(getChromaticIntervals("major")).toEqual([1, 3, 6, 8, 10]);
+  expect(getAlteredDegree(10, "major")).toEqual({ degree: 7, alteration: -1 });
+  expect(getAlteredDegree(9, "minor")).toEqual({ degree: 6, alteration: 1 });
+  expect(getIntervalLabel(11, "mixolydian")).toBe("♮7");
+  expect(getExpectedNote("C", 7, "major", -1)).toBe("B♭");
+});
+
+test("builds diatonic chords and numerals on any degree", () => {
+  expect(getDiatonicChord("major", 5, 4)).toEqual([0, 4, 7, 10]);
+  expect(getDiatonicChord("major", 2, 4)).toEqual([0, 3, 7, 10]);
+  expect(getRomanNumeral("major", 7)).toBe("vii°");
+  expect(getRomanNumeral("minor", 6)).toBe("VI");
+  expect(getRomanNumeral("harmonicMinor", 3)).toBe("III+");
+});
+
+test("parses diatonic progressions", () => {
+  expect(parseProgression("I–vi–IV–V")).toEqual([1, 6, 4, 5]);
+  expect(parseProgression("ii V7 I")).toEqual([2, 5, 1]);
+  expect(parseProgression("viio-I")).toEqual([7, 1]);
+  expect(parseProgression("I bVII IV")).toBeNull();
+  expect(parseProgression("")).toBeNull();
+});
+
+test("voices chords in inversions and drop-2", () => {
+  expect(voiceChord([0, 4, 7], "root")).toEqual([0, 4, 7]);
+  expect(voiceChord([0, 4, 7], "inversion", 1)).toEqual([4, 7, 12]);
+  expect(voiceChord([0, 3, 7, 10], "inversion", 3)).toEqual([10, 12, 15, 19]);
+  expect(voiceChord([0, 4, 7], "drop2")).toEqual([0, 7, 16]);
+  expect(voiceChord([0, 4, 7, 11], "drop2")).toEqual([0, 7, 11, 16]);
+});
+
+test("rotates keys by fifths, semitones, a chosen subset or at random", () => {
+  expect(getNextKey("C", "fifths")).toBe("G");
+  expect(getNextKey("F", "fifths")).toBe("C");
+  expect(getNextKey("B", "chromatic")).toBe("C");
+  expect(getNextKey("D", "subset", ["A#/Bb", "D", "F"])).toBe("F");
+  expect(getNextKey("A#/Bb", "subset", ["A#/Bb", "D", "F"])).toBe("D");
+  expect(getNextKey("E", "subset", ["A#/Bb", "D", "F"])).toBe("F");
+  expect(getNextKey("C", "random", [], () => 0)).toBe("C#/Db");
+  expect(getNextKey("C#/Db", "random", [], () => 0)).toBe("C");
+});
@@ -0,0 +1,424 @@
+export type Direction = "ABOVE" | "BELOW";
+
+export type Mode =
+  | "major"
+  | "minor"
+  | "dorian"
+  | "phrygian"
+  | "lydian"
+  | "mixolydian"
+  | "locrian"
+  | "harmonicMinor"
+  | "melodicMinor";
+
+interface ModeDefinition {
+  label: string;
+  intervals: number[];
+  // Mode whose key signature the scale is written in (harmonic and melodic
+  // minor borrow the natural minor signature and alter it in place)
+  keySignature: Mode;
+  // Degree label for each semitone above the tonic. Diatonic degrees use the
+  // mode's own labels; the rest are named as the nearest alteration.
+  degreeLabels: string[];
+}
+
+export const KEYS = [
+  "C",
+  "C#/Db",
+  "D",
+  "D#/Eb",
+  "E",
+  "F",
+  "F#/Gb",
+  "G",
+  "G#/Ab",
+  "A",
+  "A#/Bb",
+  "B",
+];
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
+
+// Modes with a major third are labelled against the major scale; modes with
+// a minor third against natural minor, so raised degrees read as ♮6 or ♮7
+const MAJOR_DEGREE_LABELS = [
+  "1",
+  "♭2",
+  "2",
+  "♭3",
+  "3",
+  "4",
+  "#4",
+  "5",
+  "♭6",
+  "6",
+  "♭7",
+  "7",
+];
+const MINOR_DEGREE_LABELS = [
+  "1",
+  "♭2",
+  "2",
+  "♭3",
+  "♮3",
+  "4",
+  "#4",
+  "5",
+  "♭6",
+  "♮6",
+  "♭7",
+  "♮7",
+];
+
+// Chromatic notes on a degree the mode alters are marked ♮ so they can't be
+// read as the diatonic degree (e.g. the natural 7 in Mixolydian)
+const withLabels = (
+  labels: string[],
+  overrides: Record<number, string>
+): string[] => labels.map((label, interval) => overrides[interval] ?? label);
+
+export const MODE_DEFINITIONS: Record<Mode, ModeDefinition> = {
+  major: {
+    label: "Major",
+    intervals: MAJOR_INTERVALS,
+    keySignature: "major",
+    degreeLabels: MAJOR_DEGREE_LABELS,
+  },
+  minor: {
+    label: "Minor",
+    intervals: [0, 2, 3, 5, 7, 8, 10],
+    keySignature: "minor",
+    degreeLabels: MINOR_DEGREE_LABELS,
+  },
+  dorian: {
+    label: "Dorian",
+    intervals: [0, 2, 3, 5, 7, 9, 10],
+    keySignature: "dorian",
+    degreeLabels: MINOR_DEGREE_LABELS,
+  },
+  phrygian: {
+    label: "Phrygian",
+    intervals: [0, 1, 3, 5, 7, 8, 10],
+    keySignature: "phrygian",
+    degreeLabels: withLabels(MINOR_DEGREE_LABELS, { 2: "♮2" }),
+  },
+  lydian: {
+    label: "Lydian",
+    intervals: [0, 2, 4, 6, 7, 9, 11],
+    keySignature: "lydian",
+    degreeLabels: withLabels(MAJOR_DEGREE_LABELS, { 5: "♮4" }),
+  },
+  mixolydian: {
+    label: "Mixolydian",
+    intervals: [0, 2, 4, 5, 7, 9, 10],
+    keySignature: "mixolydian",
+    degreeLabels: withLabels(MAJOR_DEGREE_LABELS, { 11: "♮7" }),
+  },
+  locrian: {
+    label: "Locrian",
+    intervals: [0, 1, 3, 5, 6, 8, 10],
+    keySignature: "locrian",
+    degreeLabels: withLabels(MINOR_DEGREE_LABELS, {
+      2: "♮2",
+      6: "♭5",
+      7: "♮5",
+    }),
+  },
+  harmonicMinor: {
+    label: "Harmonic Minor",
+    intervals: [0, 2, 3, 5, 7, 8, 11],
+    keySignature: "minor",
+    degreeLabels: MINOR_DEGREE_LABELS,
+  },
+  melodicMinor: {
+    label: "Melodic Minor",
+    intervals: [0, 2, 3, 5, 7, 9, 11],
+    keySignature: "minor",
+    degreeLabels: MINOR_DEGREE_LABELS,
+  },
+};
+
+export const MODES = Object.keys(MODE_DEFINITIONS) as Mode[];
+
+export const isMode = (value: string): value is Mode =>
+  MODES.includes(value as Mode);
+
+const mod12 = (value: number): number => ((value % 12) + 12) % 12;
+
+const ACCIDENTALS: Record<number, string> = {
+  [-2]: "♭♭",
+  [-1]: "♭",
+  0: "",
+  1: "#",
+  2: "x",
+};
+
+const LABEL_ACCIDENTALS: Record<string, number> = {
+  "♭♭": -2,
+  "♭": -1,
+  "♮": 0,
+  "": 0,
+  "#": 1,
+  x: 2,
+};
+
+// Split a degree label such as "♭7" into its degree number and its offset in
+// semitones from the same degree of the major scale
+const parseDegreeLabel = (
+  label: string
+): { degree: number; offset: number } => {
+  const match = label.match(/^(♭♭|♭|♮|#|x)?([1-7])$/);
+  if (!match) {
+    throw new Error(`Invalid scale degree label: ${label}`);
+  }
+  return {
+    degree: parseInt(match[2], 10),
+    offset: LABEL_ACCIDENTALS[match[1] || ""],
+  };
+};
+
+// Semitones a letter has to be raised (or lowered) to sound a pitch class
+const getLetterOffset = (letterIndex: number, pitchClass: number): number => {
+  const offset = mod12(pitchClass - LETTER_PITCH_CLASSES[letterIndex]);
+  return offset > 6 ? offset - 12 : offset;
+};
+
+// Name a note from a letter and the pitch class it has to sound
+const spellWithLetter = (letterIndex: number, pitchClass: number): string =>
+  `${LETTERS[letterIndex]}${
+    ACCIDENTALS[getLetterOffset(letterIndex, pitchClass)] ?? "?"
+  }`;
+
+const getScaleLetterOffsets = (
+  tonicLetterIndex: number,
+  tonicPitchClass: number,
+  mode: Mode
+): number[] =>
+  MODE_DEFINITIONS[mode].intervals.map((interval, i) =>
+    getLetterOffset((tonicLetterIndex + i) % 7, tonicPitchClass + interval)
+  );
+
+export const getKeyPitchClass = (keyName: string): number =>
+  KEYS.findIndex((key) => key === keyName);
+
+// Pick the letter name for the tonic whose key signature has the fewest
+// accidentals, preferring flats when both spellings tie (F#/Gb major,
+// D#/Eb minor)
+const getTonicLetterIndex = (keyName: string, mode: Mode): number => {
+  const pitchClass = getKeyPitchClass(keyName);
+  const { keySignature } = MODE_DEFINITIONS[mode];
+  const candidates = keyName.split("/").map((name) => {
+    const letterIndex = LETTERS.indexOf(name.charAt(0));
+    const accidentals = getScaleLetterOffsets(
+      letterIndex,
+      pitchClass,
+      keySignature
+    )
+      .map(Math.abs)
+      .reduce((total, count) => total + count, 0);
+    return { letterIndex, accidentals, isFlat: name.endsWith("b") };
+  });
+
+  return candidates.reduce((best, candidate) =>
+    candidate.accidentals < best.accidentals ||
+    (candidate.accidentals === best.accidentals && candidate.isFlat)
+      ? candidate
+      : best
+  ).letterIndex;
+};
+
+export const spellTonic = (keyName: string, mode: Mode): string =>
+  spellScale(keyName, mode)[0];
+
+export const spellScale = (keyName: string, mode: Mode): string[] => {
+  const tonicLetterIndex = getTonicLetterIndex(keyName, mode);
+  const keyPitchClass = getKeyPitchClass(keyName);
+  return MODE_DEFINITIONS[mode].intervals.map((interval, i) =>
+    spellWithLetter((tonicLetterIndex + i) % 7, keyPitchClass + interval)
+  );
+};
+
+// Scale degree label (e.g. "5", "♭7", "#4") for a pitch class in a key
+export const getDegreeLabel = (
+  pitchClass: number,
+  keyName: string,
+  mode: Mode
+): string => {
+  const keyPitchClass = getKeyPitchClass(keyName);
+  if (keyPitchClass === -1) return "?";
+  return MODE_DEFINITIONS[mode].degreeLabels[mod12(pitchClass - keyPitchClass)];
+};
+
+// Spell a pitch class with the letter of the scale degree it belongs to in
+// this key, so a ♭7 in C is B♭ rather than A#
+export const spellPitchClass = (
+  pitchClass: number,
+  keyName: string,
+  mode: Mode
+): string => {
+  const { degree, offset } = parseDegreeLabel(
+    getDegreeLabel(pitchClass, keyName, mode)
+  );
+  const tonicLetterIndex = getTonicLetterIndex(keyName, mode);
+  const keyPitchClass = getKeyPitchClass(keyName);
+  return spellWithLetter(
+    (tonicLetterIndex + degree - 1) % 7,
+    keyPitchClass + MAJOR_INTERVALS[degree - 1] + offset
+  );
+};
+
+// Label for the degree a number of semitones above the tonic
+export const getIntervalLabel = (interval: number, mode: Mode): string =>
+  MODE_DEFINITIONS[mode].degreeLabels[mod12(interval)];
+
+// Semitones above the tonic that fall outside the mode
+export const getChromaticIntervals = (mode: Mode): number[] =>
+  Array.from({ length: 12 }, (_, interval) => interval).filter(
+    (interval) => !MODE_DEFINITIONS[mode].intervals.includes(interval)
+  );
+
+// Express a chromatic interval as an alteration of the diatonic degree its
+// label is written on, e.g. ♭7 in major is degree 7 lowered by one semitone
+export const getAlteredDegree = (
+  interval: number,
+  mode: Mode
+): { degree: number; alteration: number } => {
+  const { degree } = parseDegreeLabel(getIntervalLabel(interval, mode));
+  let alteration = mod12(
+    interval - MODE_DEFINITIONS[mode].intervals[degree - 1]
+  );
+  if (alteration > 6) alteration -= 12;
+  return { degree, alteration };
+};
+
+export const getExpectedPitchClass = (
+  keyName: string,
+  scaleDegree: number,
+  mode: Mode,
+  alteration: number = 0
+): number =>
+  mod12(
+    getKeyPitchClass(keyName) +
+      MODE_DEFINITIONS[mode].intervals[scaleDegree - 1] +
+      alteration
+  );
+
+export const getExpectedNote = (
+  keyName: string,
+  scaleDegree: number,
+  mode: Mode,
+  alteration: number = 0
+): string =>
+  alteration
+    ? spellPitchClass(
+        getExpectedPitchClass(keyName, scaleDegree, mode, alteration),
+        keyName,
+        mode
+      )
+    : spellScale(keyName, mode)[scaleDegree - 1];
+
+// Semitones above the chord root of the diatonic chord stacked in thirds on
+// a degree: a triad by default, or a seventh chord with size 4. The tonic
+// triad of Locrian comes out diminished.
+export const getDiatonicChord = (
+  mode: Mode,
+  degree: number = 1,
+  size: number = 3
+): number[] => {
+  const { intervals } = MODE_DEFINITIONS[mode];
+  const root = intervals[degree - 1];
+  return Array.from({ length: size }, (_, i) =>
+    mod12(intervals[(degree - 1 + i * 2) % 7] - root)
+  );
+};
+
+export type ChordVoicing = "root" | "inversion" | "drop2";
+
+// Arrange chord tones from getDiatonicChord as semitones above the chord
+// root. "inversion" moves the lowest `inversion` tones up an octave; "drop2"
+// takes the close second inversion and drops its second-highest voice (the
+// root) an octave, giving 1-5-3 or 1-5-7-3.
+export const voiceChord = (
+  chordTones: number[],
+  voicing: ChordVoicing,
+  inversion: number = 0
+): number[] => {
+  const invert = (count: number) =>
+    chordTones
+      .map((tone, i) => (i < count ? tone + 12 : tone))
+      .sort((a, b) => a - b);
+
+  if (voicing === "inversion") {
+    return invert(inversion % chordTones.length);
+  }
+  if (voicing === "drop2") {
+    const close = invert(2);
+    const dropped = close.length - 2;
+    return close
+      .map((tone, i) => (i === dropped ? tone - 12 : tone))
+      .sort((a, b) => a - b);
+  }
+  return chordTones;
+};
+
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+// Roman numeral for the diatonic triad on a degree, cased by its quality
+// (vi, V, vii°, III+)
+export const getRomanNumeral = (mode: Mode, degree: number): string => {
+  const [, third, fifth] = getDiatonicChord(mode, degree);
+  const numeral = ROMAN_NUMERALS[degree - 1];
+  if (third === 4) {
+    return fifth === 8 ? `${numeral}+` : numeral;
+  }
+  return fifth === 6 ? `${numeral.toLowerCase()}°` : numeral.toLowerCase();
+};
+
+// Parse a progression such as "I-vi-IV-V" or "ii V I" into the degrees its
+// chords are built on. Case and quality marks are ignored since the mode
+// decides each chord's quality; returns null if any chord isn't diatonic.
+export const parseProgression = (text: string): number[] | null => {
+  const chords = text
+    .split(/[\s,–—-]+/)
+    .filter((token) => token.length > 0)
+    .map((token) => {
+      const match = token.match(/^(i{1,3}|iv|vi{0,2})(°|o|\+|7)*$/i);
+      return match ? ROMAN_NUMERALS.indexOf(match[1].toUpperCase()) + 1 : 0;
+    });
+  return chords.length > 0 && chords.every((degree) => degree > 0)
+    ? chords
+    : null;
+};
+
+// Orders a session can rotate through the keys in; "subset" walks the keys
+// the user picked, in chromatic order
+export type KeyOrder = "random" | "fifths" | "chromatic" | "subset";
+
+export const getNextKey = (
+  keyName: string,
+  order: KeyOrder,
+  subset: string[] = [],
+  random: () => number = Math.random
+): string => {
+  const pitchClass = getKeyPitchClass(keyName);
+  switch (order) {
+    case "fifths":
+      return KEYS[(pitchClass + 7) % 12];
+    case "chromatic":
+      return KEYS[(pitchClass + 1) % 12];
+    case "subset": {
+      const keys = KEYS.filter((key) => subset.includes(key));
+      if (keys.length === 0) {
+        return keyName;
+      }
+      return keys.find((key) => getKeyPitchClass(key) > pitchClass) ?? keys[0];
+    }
+    case "random": {
+      // Never the key just practiced
+      const others = KEYS.filter((key) => key !== keyName);
+      return others[Math.floor(random() * others.length)];
+    }
+  }
+};
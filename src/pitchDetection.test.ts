@@ -0,0 +1,135 @@
+import {
+  estimatePitch,
+  frequencyToNote,
+  getCalibratedNoiseGate,
+  getRms,
+  isPlaybackPartial,
+} from "./pitchDetection";
+
+const SAMPLE_RATE = 44100;
+const SIZE = 2048;
+const OPTIONS = { minFrequency: 80, maxFrequency: 800 };
+
+const sine = (frequency: number): Float32Array =>
+  Float32Array.from({ length: SIZE }, (_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+const sawtooth = (frequency: number): Float32Array =>
+  Float32Array.from({ length: SIZE }, (_, i) => {
+    const phase = (frequency * i) / SAMPLE_RATE;
+    return 2 * (phase - Math.floor(phase)) - 1;
+  });
+
+// Deterministic noise so failures are reproducible
+const noise = (length: number): number[] => {
+  let seed = 12345;
+  return Array.from({ length }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 1073741824 - 1;
+  });
+};
+
+// Karplus-Strong string: a noise burst fed through an averaging delay line.
+// The analysed window starts after the attack, as it would in the app.
+const plucked = (period: number): Float32Array => {
+  const samples = noise(period + 1);
+  for (let i = period + 1; i < SIZE * 2; i++) {
+    samples.push(0.996 * 0.5 * (samples[i - period] + samples[i - period - 1]));
+  }
+  return Float32Array.from(samples.slice(SIZE));
+};
+
+const expectWithinCents = (actual: number, expected: number, cents: number) =>
+  expect(Math.abs(1200 * Math.log2(actual / expected))).toBeLessThan(cents);
+
+test("estimates a sine to within a few cents", () => {
+  for (const frequency of [110, 261.63, 440, 659.25]) {
+    const estimate = estimatePitch(sine(frequency), SAMPLE_RATE, OPTIONS);
+    expectWithinCents(estimate!.frequency, frequency, 5);
+    expect(estimate!.clarity).toBeGreaterThan(0.95);
+  }
+});
+
+test("finds the fundamental of a sawtooth rather than a harmonic or subharmonic", () => {
+  for (const frequency of [82.41, 146.83, 329.63]) {
+    const estimate = estimatePitch(sawtooth(frequency), SAMPLE_RATE, OPTIONS);
+    expectWithinCents(estimate!.frequency, frequency, 10);
+    expect(estimate!.clarity).toBeGreaterThan(0.9);
+  }
+});
+
+test("tracks a plucked string", () => {
+  // The averaging filter delays the loop by half a sample
+  const estimate = estimatePitch(plucked(200), SAMPLE_RATE, OPTIONS);
+  expectWithinCents(estimate!.frequency, SAMPLE_RATE / 200.5, 10);
+  expect(estimate!.clarity).toBeGreaterThan(0.9);
+});
+
+test("tracks low bass notes in a large buffer", () => {
+  const bass = { minFrequency: 28, maxFrequency: 450 };
+  for (const frequency of [41.2, 55, 98, 392]) {
+    const buffer = Float32Array.from({ length: 4096 }, (_, i) => {
+      const phase = (frequency * i) / SAMPLE_RATE;
+      return 2 * (phase - Math.floor(phase)) - 1;
+    });
+    const estimate = estimatePitch(buffer, SAMPLE_RATE, bass);
+    expectWithinCents(estimate!.frequency, frequency, 10);
+    expect(estimate!.clarity).toBeGreaterThan(0.9);
+  }
+});
+
+test("reports low clarity for noise and nothing for silence", () => {
+  const estimate = estimatePitch(
+    Float32Array.from(noise(SIZE)),
+    SAMPLE_RATE,
+    OPTIONS
+  );
+  expect(estimate === null || estimate.clarity < 0.5).toBe(true);
+  expect(estimatePitch(new Float32Array(SIZE), SAMPLE_RATE, OPTIONS)).toBe(
+    null
+  );
+  expect(
+    estimatePitch(
+      sine(440).map((x) => x * 0.001),
+      SAMPLE_RATE,
+      {
+        ...OPTIONS,
+        minRms: 0.01,
+      }
+    )
+  ).toBe(null);
+});
+
+test("reports the cents offset from the nearest equal-tempered note", () => {
+  expect(frequencyToNote(440)).toEqual({
+    pitchClass: 9,
+    octave: 4,
+    midi: 69,
+    cents: 0,
+  });
+  const sharp = frequencyToNote(440 * Math.pow(2, 45 / 1200))!;
+  expect(sharp.midi).toBe(69);
+  expect(sharp.cents).toBeCloseTo(45);
+  const flat = frequencyToNote(261.63 * Math.pow(2, -30 / 1200))!;
+  expect(flat.pitchClass).toBe(0);
+  expect(flat.cents).toBeCloseTo(-30, 0);
+});
+
+test("sets the calibrated noise gate above the room noise, ignoring stray peaks", () => {
+  const levels = Array.from({ length: 100 }, (_, i) => (i === 50 ? 0.3 : 0.01));
+  expect(getCalibratedNoiseGate(levels)).toBeCloseTo(0.02);
+  expect(getCalibratedNoiseGate(new Array(10).fill(0))).toBe(0.001);
+  expect(getRms(Float32Array.from([0.5, -0.5, 0.5, -0.5]))).toBe(0.5);
+});
+
+test("recognises the partials of the chord being played back", () => {
+  const cMajor = [261.63, 329.63, 392.0];
+  // G5 is the third harmonic of C4, E6 the fourth of E4
+  expect(isPlaybackPartial(783.99, cMajor)).toBe(true);
+  expect(isPlaybackPartial(1318.51, cMajor)).toBe(true);
+  expect(isPlaybackPartial(266, cMajor)).toBe(true);
+  // An octave below the chord, or a note outside it, is the player
+  expect(isPlaybackPartial(130.81, cMajor)).toBe(false);
+  expect(isPlaybackPartial(293.66, cMajor)).toBe(false);
+});
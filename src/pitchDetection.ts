@@ -0,0 +1,210 @@
+export interface PitchEstimate {
+  frequency: number;
+  // Height of the normalized autocorrelation peak, from 0 (noise) to 1 (a
+  // perfectly periodic signal)
+  clarity: number;
+}
+
+export interface DetectedPitch {
+  pitchClass: number;
+  octave: number;
+  midi: number;
+  // Offset from the equal-tempered note, between -50 and +50
+  cents: number;
+}
+
+export interface PitchEstimatorOptions {
+  minFrequency: number;
+  maxFrequency: number;
+  // Buffers quieter than this RMS level are treated as silence
+  minRms?: number;
+}
+
+export const getRms = (buffer: Float32Array): number => {
+  let sumOfSquares = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sumOfSquares += buffer[i] * buffer[i];
+  }
+  return buffer.length > 0 ? Math.sqrt(sumOfSquares / buffer.length) : 0;
+};
+
+// Noise gate 6 dB above the room noise measured during calibration. The
+// 95th percentile is used rather than the peak so a stray click doesn't
+// push the gate up.
+export const getCalibratedNoiseGate = (levels: number[]): number => {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor((sorted.length - 1) * 0.95)] ?? 0;
+  return Math.min(Math.max(noiseFloor * 2, 0.001), 0.5);
+};
+
+// A key maximum must reach this fraction of the highest one to be picked.
+// Taking the first peak that does (rather than the highest) is what keeps
+// the estimate from jumping down an octave on harmonic-rich tones.
+const PEAK_THRESHOLD = 0.9;
+
+// Multiply-adds allowed for a full-rate NSDF. Large buffers searching down
+// to low notes (the bass profile) are first searched on a decimated copy
+// so detection keeps up with the animation frame rate.
+const MAX_FULL_RATE_WORK = 1500000;
+// Decimation must leave the highest note at least this many samples a period
+const MIN_SAMPLES_PER_PERIOD = 8;
+
+// nsdf = 2 * r(lag) / m(lag), where r is the autocorrelation and m the sum
+// of squares of both overlapping parts
+const getNsdfAt = (buffer: Float32Array, lag: number): number => {
+  let correlation = 0;
+  let energy = 0;
+  for (let i = 0; i < buffer.length - lag; i++) {
+    correlation += buffer[i] * buffer[i + lag];
+    energy += buffer[i] * buffer[i] + buffer[i + lag] * buffer[i + lag];
+  }
+  return energy > 0 ? (2 * correlation) / energy : 0;
+};
+
+// Collect the highest point of each positive region after the first
+// negative-going zero crossing, and pick the first that is nearly as high
+// as the highest
+const pickPeakLag = (
+  nsdf: Float32Array,
+  minLag: number,
+  maxLag: number
+): number | null => {
+  const keyMaxima: number[] = [];
+  let lag = 1;
+  while (lag <= maxLag && nsdf[lag] > 0) lag++;
+  while (lag <= maxLag) {
+    while (lag <= maxLag && nsdf[lag] <= 0) lag++;
+    let peak = -1;
+    while (lag <= maxLag && nsdf[lag] > 0) {
+      if (peak === -1 || nsdf[lag] > nsdf[peak]) peak = lag;
+      lag++;
+    }
+    if (peak >= minLag) keyMaxima.push(peak);
+  }
+  if (keyMaxima.length === 0) return null;
+
+  const highest = Math.max(...keyMaxima.map((peak) => nsdf[peak]));
+  return keyMaxima.find((peak) => nsdf[peak] >= PEAK_THRESHOLD * highest)!;
+};
+
+// Average each run of factor samples into one
+const decimate = (buffer: Float32Array, factor: number): Float32Array =>
+  Float32Array.from({ length: Math.floor(buffer.length / factor) }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += buffer[i * factor + j];
+    return sum / factor;
+  });
+
+// McLeod Pitch Method: normalized square difference function, key-maximum
+// peak picking and parabolic interpolation between lags
+export const estimatePitch = (
+  buffer: Float32Array,
+  sampleRate: number,
+  { minFrequency, maxFrequency, minRms = 0 }: PitchEstimatorOptions
+): PitchEstimate | null => {
+  const size = buffer.length;
+
+  const rms = getRms(buffer);
+  if (rms === 0 || rms < minRms) {
+    return null;
+  }
+
+  const minLag = Math.max(1, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.min(size - 2, Math.ceil(sampleRate / minFrequency));
+  if (minLag >= maxLag) return null;
+
+  const factor = Math.max(
+    1,
+    Math.min(
+      Math.ceil(Math.sqrt((size * maxLag) / MAX_FULL_RATE_WORK)),
+      Math.floor(minLag / MIN_SAMPLES_PER_PERIOD)
+    )
+  );
+
+  let chosen: number;
+  const nsdf = new Float32Array(maxLag + 2);
+  if (factor === 1) {
+    for (let lag = 0; lag <= maxLag + 1; lag++) {
+      nsdf[lag] = getNsdfAt(buffer, lag);
+    }
+    const peak = pickPeakLag(nsdf, minLag, maxLag);
+    if (peak === null) return null;
+    chosen = peak;
+  } else {
+    // Find the period on the decimated copy, then refine it at full rate
+    // around the lag found
+    const coarse = decimate(buffer, factor);
+    const coarseMaxLag = Math.ceil(maxLag / factor);
+    const coarseNsdf = new Float32Array(coarseMaxLag + 2);
+    for (let lag = 0; lag <= coarseMaxLag + 1; lag++) {
+      coarseNsdf[lag] = getNsdfAt(coarse, lag);
+    }
+    const peak = pickPeakLag(
+      coarseNsdf,
+      Math.floor(minLag / factor),
+      coarseMaxLag
+    );
+    if (peak === null) return null;
+
+    const from = Math.max(minLag, (peak - 1) * factor);
+    const to = Math.min(maxLag, (peak + 1) * factor);
+    chosen = from;
+    for (let lag = from - 1; lag <= to + 1; lag++) {
+      nsdf[lag] = getNsdfAt(buffer, lag);
+    }
+    for (let lag = from; lag <= to; lag++) {
+      if (nsdf[lag] > nsdf[chosen]) chosen = lag;
+    }
+  }
+
+  // Fit a parabola through the peak and its neighbours
+  const before = nsdf[chosen - 1];
+  const at = nsdf[chosen];
+  const after = nsdf[chosen + 1];
+  const curvature = before - 2 * at + after;
+  const shift = curvature !== 0 ? (before - after) / (2 * curvature) : 0;
+  const period = chosen + shift;
+
+  return {
+    frequency: sampleRate / period,
+    clarity: Math.min(1, at - ((before - after) * shift) / 4),
+  };
+};
+
+export const frequencyToNote = (frequency: number): DetectedPitch | null => {
+  const A4 = 440;
+
+  if (frequency <= 0) return null;
+
+  // Calculate semitones from A4 (MIDI note 69)
+  const exactSemitones = 12 * Math.log2(frequency / A4);
+  const semitones = Math.round(exactSemitones);
+  const midi = 69 + semitones;
+
+  return {
+    // Handle negative modulo
+    pitchClass: ((midi % 12) + 12) % 12,
+    octave: Math.floor(midi / 12) - 1,
+    midi,
+    cents: (exactSemitones - semitones) * 100,
+  };
+};
+
+export const midiToFrequency = (midi: number): number =>
+  440 * Math.pow(2, (midi - 69) / 12);
+
+// Whether a frequency sits on one of the lower harmonics of a note being
+// played back, i.e. is probably the app's own chord leaking into the
+// microphone rather than the player
+export const isPlaybackPartial = (
+  frequency: number,
+  fundamentals: number[],
+  maxHarmonic: number = 4,
+  toleranceCents: number = 35
+): boolean =>
+  fundamentals.some((fundamental) =>
+    Array.from({ length: maxHarmonic }, (_, i) => fundamental * (i + 1)).some(
+      (partial) =>
+        Math.abs(1200 * Math.log2(frequency / partial)) <= toleranceCents
+    )
+  );
@@ -0,0 +1,42 @@
+import { AttemptRecord, summarizeBy, summarizeByDay } from "./practiceHistory";
+
+const attempt = (
+  degree: string,
+  correct: boolean,
+  timestamp: number
+): AttemptRecord => ({
+  timestamp,
+  key: "C",
+  mode: "major",
+  degree,
+  direction: "ABOVE",
+  interval: 3,
+  timbre: "synthesizer",
+  detectedNotes: [],
+  timeToCorrectMs: correct ? 900 : null,
+  correct,
+});
+
+test("summarizes accuracy per group", () => {
+  const records = [
+    attempt("6", true, 0),
+    attempt("6", false, 1),
+    attempt("♭7", true, 2),
+  ];
+  expect(summarizeBy(records, (record) => record.degree)).toEqual([
+    { label: "6", attempts: 2, accuracy: 50 },
+    { label: "♭7", attempts: 1, accuracy: 100 },
+  ]);
+});
+
+test("summarizes accuracy per day, oldest first", () => {
+  const day = 24 * 60 * 60 * 1000;
+  const records = [
+    attempt("1", true, new Date(2024, 0, 2).getTime()),
+    attempt("1", false, new Date(2024, 0, 1).getTime()),
+    attempt("1", true, new Date(2024, 0, 1).getTime() + day / 2),
+  ];
+  expect(summarizeByDay(records).map(({ attempts }) => attempts)).toEqual([
+    2, 1,
+  ]);
+});
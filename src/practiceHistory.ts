@@ -0,0 +1,107 @@
+import { Direction, Mode } from "./musicTheory";
+
+export interface DetectedNoteEntry {
+  note: string; // spelled with octave, e.g. "B♭3"
+  midi: number;
+  timeMs: number; // since the prompt started
+}
+
+export interface AttemptRecord {
+  id?: number;
+  timestamp: number;
+  key: string;
+  mode: Mode;
+  degree: string; // as prompted, e.g. "6", "♭7" or "3/vi"
+  direction?: Direction;
+  interval: number; // seconds between prompts
+  timbre: string;
+  detectedNotes: DetectedNoteEntry[];
+  timeToCorrectMs: number | null;
+  correct: boolean;
+}
+
+export interface AccuracySummary {
+  label: string;
+  attempts: number;
+  accuracy: number; // percent
+}
+
+const DB_NAME = "scaleDegreeRandomizer";
+const DB_VERSION = 1;
+const STORE_NAME = "attempts";
+
+const openHistoryDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      store.createIndex("timestamp", "timestamp");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request against the attempts store and close the connection once
+// its transaction has finished
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openHistoryDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const addAttempt = async (record: AttemptRecord): Promise<void> => {
+  await withStore("readwrite", (store) => store.add(record));
+};
+
+export const getAllAttempts = (): Promise<AttemptRecord[]> =>
+  withStore("readonly", (store) => store.index("timestamp").getAll());
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore("readwrite", (store) => store.clear());
+};
+
+const summarize = (label: string, records: AttemptRecord[]) => ({
+  label,
+  attempts: records.length,
+  accuracy: Math.round(
+    (records.filter((record) => record.correct).length / records.length) * 100
+  ),
+});
+
+// Accuracy per group, in the order each group first appears
+export const summarizeBy = (
+  records: AttemptRecord[],
+  getLabel: (record: AttemptRecord) => string
+): AccuracySummary[] => {
+  const groups = new Map<string, AttemptRecord[]>();
+  records.forEach((record) => {
+    const label = getLabel(record);
+    groups.set(label, [...(groups.get(label) ?? []), record]);
+  });
+  return Array.from(groups.entries()).map(([label, group]) =>
+    summarize(label, group)
+  );
+};
+
+// Accuracy per calendar day (local time), oldest first
+export const summarizeByDay = (records: AttemptRecord[]): AccuracySummary[] =>
+  summarizeBy(
+    [...records].sort((a, b) => a.timestamp - b.timestamp),
+    (record) => new Date(record.timestamp).toLocaleDateString()
+  );
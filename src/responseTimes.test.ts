@@ -0,0 +1,33 @@
+import {
+  getMedianResponse,
+  getResponseDistribution,
+  getResponseTimes,
+} from "./responseTimes";
+
+test("takes the median of odd and even counts, skipping unanswered prompts", () => {
+  expect(getMedianResponse([1200, 400, 800])).toBe(800);
+  expect(getMedianResponse([1200, 400, 800, 2000])).toBe(1000);
+  expect(getMedianResponse([])).toBeNull();
+
+  const responseTimes = getResponseTimes([
+    { responseMs: 900 },
+    { responseMs: null },
+    { responseMs: 300 },
+  ]);
+  expect(responseTimes).toEqual([900, 300]);
+  expect(getMedianResponse(responseTimes)).toBe(600);
+  expect(getResponseTimes([{ responseMs: null }])).toEqual([]);
+});
+
+test("buckets reaction times up to each bound", () => {
+  expect(
+    getResponseDistribution([0, 499, 500, 1999, 2000, 3000, 12000])
+  ).toEqual([
+    { label: "<0.5s", count: 2 },
+    { label: "<1s", count: 1 },
+    { label: "<1.5s", count: 0 },
+    { label: "<2s", count: 1 },
+    { label: "<3s", count: 1 },
+    { label: "3s+", count: 2 },
+  ]);
+});
@@ -0,0 +1,38 @@
+// Upper bounds of the reaction-time buckets, in ms
+export const RESPONSE_BUCKETS_MS = [500, 1000, 1500, 2000, 3000, Infinity];
+
+export interface ResponseBucket {
+  label: string;
+  count: number;
+}
+
+// Reaction times of the prompts that were answered; the rest carry null
+export const getResponseTimes = (
+  results: { responseMs: number | null }[]
+): number[] =>
+  results
+    .map((result) => result.responseMs)
+    .filter((responseMs): responseMs is number => responseMs !== null);
+
+// Middle reaction time, or the mean of the middle two; null with none
+export const getMedianResponse = (responseTimes: number[]): number | null => {
+  if (responseTimes.length === 0) return null;
+  const sorted = [...responseTimes].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Count of reaction times per bucket, each from the previous bound up to
+// (not including) its own
+export const getResponseDistribution = (
+  responseTimes: number[]
+): ResponseBucket[] =>
+  RESPONSE_BUCKETS_MS.map((upper, i) => {
+    const lower = i === 0 ? 0 : RESPONSE_BUCKETS_MS[i - 1];
+    return {
+      label: upper === Infinity ? `${lower / 1000}s+` : `<${upper / 1000}s`,
+      count: responseTimes.filter((ms) => ms >= lower && ms < upper).length,
+    };
+  });
@@ -0,0 +1,161 @@
+import {
+  findNearestZone,
+  parseSampleNoteName,
+  parseSoundFont,
+} from "./samplePack";
+import bundledManifest from "../public/samples/manifest.json";
+
+interface TestHeader {
+  name: string;
+  start: number;
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  originalPitch: number;
+  pitchCorrection: number;
+  sampleType: number;
+}
+
+// Smallest RIFF layout parseSoundFont reads: an sdta list with the PCM and a
+// pdta list with the sample headers
+const buildSoundFont = (pcm: number[], headers: TestHeader[]) => {
+  const shdrSize = (headers.length + 1) * 46;
+  const smplSize = pcm.length * 2;
+  const sdtaSize = 4 + 8 + smplSize;
+  const pdtaSize = 4 + 8 + shdrSize;
+  const view = new DataView(new ArrayBuffer(12 + 8 + sdtaSize + 8 + pdtaSize));
+  let offset = 0;
+  const writeFourCC = (id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i));
+    offset += 4;
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+
+  writeFourCC("RIFF");
+  writeUint32(view.byteLength - 8);
+  writeFourCC("sfbk");
+
+  writeFourCC("LIST");
+  writeUint32(sdtaSize);
+  writeFourCC("sdta");
+  writeFourCC("smpl");
+  writeUint32(smplSize);
+  pcm.forEach((value) => {
+    view.setInt16(offset, value, true);
+    offset += 2;
+  });
+
+  writeFourCC("LIST");
+  writeUint32(pdtaSize);
+  writeFourCC("pdta");
+  writeFourCC("shdr");
+  writeUint32(shdrSize);
+  [
+    ...headers,
+    {
+      name: "EOS",
+      start: 0,
+      end: 0,
+      loopStart: 0,
+      loopEnd: 0,
+      originalPitch: 0,
+      pitchCorrection: 0,
+      sampleType: 0,
+    },
+  ].forEach((header) => {
+    const base = offset;
+    for (let i = 0; i < header.name.length; i++) {
+      view.setUint8(base + i, header.name.charCodeAt(i));
+    }
+    view.setUint32(base + 20, header.start, true);
+    view.setUint32(base + 24, header.end, true);
+    view.setUint32(base + 28, header.loopStart, true);
+    view.setUint32(base + 32, header.loopEnd, true);
+    view.setUint32(base + 36, 22050, true);
+    view.setUint8(base + 40, header.originalPitch);
+    view.setInt8(base + 41, header.pitchCorrection);
+    view.setUint16(base + 44, header.sampleType, true);
+    offset += 46;
+  });
+
+  return view.buffer;
+};
+
+test("reads the root note from common sample file names", () => {
+  expect(parseSampleNoteName("C4.wav")).toBe(60);
+  expect(parseSampleNoteName("A#3.mp3")).toBe(58);
+  expect(parseSampleNoteName("Db5v8.flac")).toBe(73);
+  expect(parseSampleNoteName("Fs2.ogg")).toBe(42);
+  expect(parseSampleNoteName("Piano.mf.B0.aiff")).toBe(23);
+  expect(parseSampleNoteName("Bass_E1.wav")).toBe(28);
+  expect(parseSampleNoteName("piano_060.wav")).toBe(60);
+  expect(parseSampleNoteName("release.wav")).toBeNull();
+});
+
+test("names every bundled sample after its note", () => {
+  // C2 to C6 in tritones
+  expect(bundledManifest.files.map(parseSampleNoteName)).toEqual([
+    36, 42, 48, 54, 60, 66, 72, 78, 84,
+  ]);
+});
+
+test("picks the nearest zone and the rate that retunes it", () => {
+  const zones = [{ rootMidi: 48 }, { rootMidi: 60 }, { rootMidi: 72 }];
+
+  const a4 = findNearestZone(zones, 440);
+  expect(a4.zone.rootMidi).toBe(72);
+  expect(a4.playbackRate).toBeCloseTo(Math.pow(2, -3 / 12), 6);
+
+  const d4 = findNearestZone(zones, 293.66);
+  expect(d4.zone.rootMidi).toBe(60);
+  expect(d4.playbackRate).toBeCloseTo(Math.pow(2, 2 / 12), 3);
+});
+
+test("extracts pitched samples and loops from an SF2 file", () => {
+  const pcm = [0, 16384, -16384, 32767, 0, 8192, -8192, 0];
+  const samples = parseSoundFont(
+    buildSoundFont(pcm, [
+      {
+        name: "Left",
+        start: 0,
+        end: 4,
+        loopStart: 1,
+        loopEnd: 3,
+        originalPitch: 60,
+        pitchCorrection: 0,
+        sampleType: 4,
+      },
+      {
+        name: "Right",
+        start: 4,
+        end: 8,
+        loopStart: 4,
+        loopEnd: 8,
+        originalPitch: 60,
+        pitchCorrection: 0,
+        sampleType: 2,
+      },
+      {
+        name: "Tuned",
+        start: 4,
+        end: 8,
+        loopStart: 5,
+        loopEnd: 7,
+        originalPitch: 72,
+        pitchCorrection: -10,
+        sampleType: 1,
+      },
+    ])
+  );
+
+  expect(samples.map(({ name }) => name)).toEqual(["Left", "Tuned"]);
+  expect(Array.from(samples[0].pcm)).toEqual([0, 0.5, -0.5, 32767 / 32768]);
+  expect(samples[0].sampleRate).toBe(22050);
+  expect(samples[1].rootMidi).toBeCloseTo(72.1, 6);
+  expect([samples[1].loopStart, samples[1].loopEnd]).toEqual([1, 3]);
+
+  expect(() => parseSoundFont(new ArrayBuffer(64))).toThrow();
+});
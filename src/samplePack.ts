@@ -0,0 +1,294 @@
+import { midiToFrequency } from "./pitchDetection";
+
+export interface SampleZone {
+  // MIDI note the recording sounds at; fractional when the SoundFont
+  // carries a pitch correction
+  rootMidi: number;
+  buffer: AudioBuffer;
+  // Sustain loop in seconds, when the source defines one
+  loop?: { start: number; end: number };
+}
+
+export interface SamplePack {
+  name: string;
+  // Sorted by rootMidi, one zone per note
+  zones: SampleZone[];
+}
+
+// A sample as stored in a SoundFont, before it is turned into an AudioBuffer
+export interface SoundFontSample {
+  name: string;
+  rootMidi: number;
+  sampleRate: number;
+  pcm: Float32Array;
+  // Loop points in frames from the start of the sample
+  loopStart: number;
+  loopEnd: number;
+}
+
+const AUDIO_EXTENSIONS = ["wav", "mp3", "ogg", "flac", "aif", "aiff", "m4a"];
+const NOTE_PITCH_CLASSES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+export const isAudioFileName = (fileName: string) =>
+  AUDIO_EXTENSIONS.includes(fileName.split(".").pop()?.toLowerCase() ?? "");
+
+// Reads the note a sample was recorded at from its file name, e.g.
+// "Piano.mf.C4.aiff", "A#3.wav", "Db5v8.flac", "Fs2.ogg" or "piano_060.wav".
+// Note names use C4 = 60. Returns null when the name carries no note.
+export const parseSampleNoteName = (fileName: string): number | null => {
+  const stem = fileName.replace(/\.[^.]+$/, "");
+
+  const noteNames = Array.from(
+    stem.matchAll(/(?:^|[^A-Za-z])([A-Ga-g])(#|b|s)?(-?\d)(?!\d)/g)
+  );
+  if (noteNames.length > 0) {
+    // The last match wins, so a prefix like "Bass_" can't shadow the note
+    const [, letter, accidental, octave] = noteNames[noteNames.length - 1];
+    const offset = accidental === "b" ? -1 : accidental ? 1 : 0;
+    const midi =
+      (Number(octave) + 1) * 12 +
+      NOTE_PITCH_CLASSES[letter.toUpperCase()] +
+      offset;
+    return midi >= 0 && midi <= 127 ? midi : null;
+  }
+
+  const numbers = Array.from(stem.matchAll(/(?:^|\D)(\d{2,3})(?!\d)/g));
+  if (numbers.length > 0) {
+    const midi = Number(numbers[numbers.length - 1][1]);
+    return midi <= 127 ? midi : null;
+  }
+  return null;
+};
+
+// The zone recorded closest to the frequency, and the rate to play it back
+// at so it sounds at that frequency
+export const findNearestZone = <T extends { rootMidi: number }>(
+  zones: T[],
+  frequency: number
+): { zone: T; playbackRate: number } => {
+  const midi = 69 + 12 * Math.log2(frequency / 440);
+  const zone = zones.reduce((nearest, candidate) =>
+    Math.abs(candidate.rootMidi - midi) < Math.abs(nearest.rootMidi - midi)
+      ? candidate
+      : nearest
+  );
+  return { zone, playbackRate: frequency / midiToFrequency(zone.rootMidi) };
+};
+
+const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readString = (view: DataView, offset: number, length: number) => {
+  let text = "";
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+const SAMPLE_HEADER_SIZE = 46;
+const RIGHT_SAMPLE = 2;
+const ROM_SAMPLE = 0x8000;
+
+// Pulls the raw samples out of an SF2 file. Instruments and presets are
+// ignored, so a SoundFont holding a single instrument works best; when
+// several samples share a root note the first one is kept. Only the left
+// half of a stereo pair is used.
+export const parseSoundFont = (data: ArrayBuffer): SoundFontSample[] => {
+  const view = new DataView(data);
+  if (
+    data.byteLength < 12 ||
+    readFourCC(view, 0) !== "RIFF" ||
+    readFourCC(view, 8) !== "sfbk"
+  ) {
+    throw new Error("Not a SoundFont (SF2) file");
+  }
+
+  let smpl: { offset: number; size: number } | null = null;
+  let shdr: { offset: number; size: number } | null = null;
+
+  // Top-level LIST chunks (INFO, sdta, pdta) each hold sub-chunks
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (readFourCC(view, offset) === "LIST") {
+      const end = Math.min(offset + 8 + size, data.byteLength);
+      let subOffset = offset + 12;
+      while (subOffset + 8 <= end) {
+        const subId = readFourCC(view, subOffset);
+        const subSize = view.getUint32(subOffset + 4, true);
+        if (subId === "smpl") smpl = { offset: subOffset + 8, size: subSize };
+        if (subId === "shdr") shdr = { offset: subOffset + 8, size: subSize };
+        subOffset += 8 + subSize + (subSize % 2);
+      }
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!smpl || !shdr) {
+    throw new Error("The SoundFont has no sample data");
+  }
+
+  const samples: SoundFontSample[] = [];
+  // The last header is the "EOS" terminator
+  const headerCount = Math.floor(shdr.size / SAMPLE_HEADER_SIZE) - 1;
+  for (let i = 0; i < headerCount; i++) {
+    const header = shdr.offset + i * SAMPLE_HEADER_SIZE;
+    const start = view.getUint32(header + 20, true);
+    const end = view.getUint32(header + 24, true);
+    const sampleType = view.getUint16(header + 44, true);
+    if (
+      sampleType & ROM_SAMPLE ||
+      sampleType === RIGHT_SAMPLE ||
+      end <= start ||
+      end * 2 > smpl.size
+    ) {
+      continue;
+    }
+
+    const originalPitch = view.getUint8(header + 40);
+    const pitchCorrection = view.getInt8(header + 41);
+    // 255 marks an unpitched sample, which the spec plays as middle C
+    const rootMidi =
+      (originalPitch <= 127 ? originalPitch : 60) - pitchCorrection / 100;
+    if (samples.some((sample) => sample.rootMidi === rootMidi)) continue;
+
+    const pcm = new Float32Array(end - start);
+    for (let frame = 0; frame < pcm.length; frame++) {
+      pcm[frame] =
+        view.getInt16(smpl.offset + (start + frame) * 2, true) / 32768;
+    }
+
+    samples.push({
+      name: readString(view, header, 20),
+      rootMidi,
+      sampleRate: view.getUint32(header + 36, true),
+      pcm,
+      loopStart: view.getUint32(header + 28, true) - start,
+      loopEnd: view.getUint32(header + 32, true) - start,
+    });
+  }
+
+  if (samples.length === 0) {
+    throw new Error("The SoundFont has no usable samples");
+  }
+  return samples;
+};
+
+const toPack = (name: string, zones: SampleZone[]): SamplePack => ({
+  name,
+  zones: zones.sort((a, b) => a.rootMidi - b.rootMidi),
+});
+
+export const loadSoundFont = async (
+  context: BaseAudioContext,
+  file: File
+): Promise<SamplePack> => {
+  const samples = parseSoundFont(await file.arrayBuffer());
+  const zones = samples.map(
+    ({ rootMidi, sampleRate, pcm, loopStart, loopEnd }): SampleZone => {
+      const buffer = context.createBuffer(1, pcm.length, sampleRate);
+      buffer.copyToChannel(pcm, 0);
+      const hasLoop = loopStart >= 0 && loopEnd > loopStart + 1;
+      return {
+        rootMidi,
+        buffer,
+        loop: hasLoop
+          ? { start: loopStart / sampleRate, end: loopEnd / sampleRate }
+          : undefined,
+      };
+    }
+  );
+  return toPack(file.name.replace(/\.sf2$/i, ""), zones);
+};
+
+// Decodes every audio file whose name carries a note. When a note has
+// several files (velocity layers) the middle one in name order is used.
+const decodeNamedSamples = async (
+  context: BaseAudioContext,
+  name: string,
+  files: { name: string; load: () => Promise<ArrayBuffer> }[]
+): Promise<SamplePack> => {
+  const byNote = new Map<number, typeof files>();
+  files
+    .filter((file) => isAudioFileName(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .forEach((file) => {
+      const midi = parseSampleNoteName(file.name);
+      if (midi === null) return;
+      byNote.set(midi, [...(byNote.get(midi) ?? []), file]);
+    });
+
+  if (byNote.size === 0) {
+    throw new Error("No samples named after a note (e.g. C4.wav) were found");
+  }
+
+  const zones = await Promise.all(
+    Array.from(byNote, async ([rootMidi, layers]) => {
+      const layer = layers[Math.floor((layers.length - 1) / 2)];
+      const buffer = await context.decodeAudioData(await layer.load());
+      return { rootMidi, buffer };
+    })
+  );
+  return toPack(name, zones);
+};
+
+// Files picked from a local folder (<input webkitdirectory>)
+export const loadSampleFolder = (context: BaseAudioContext, files: File[]) => {
+  const folder = files[0]?.webkitRelativePath.split("/")[0] || "Local samples";
+  return decodeNamedSamples(
+    context,
+    folder,
+    files.map((file) => ({ name: file.name, load: () => file.arrayBuffer() }))
+  );
+};
+
+// A pack shipped with the app: public/samples/manifest.json holding
+// { "name": "...", "files": ["C2.mp3", "F#2.mp3", ...] } next to the files.
+// Resolves to null when no pack is bundled.
+export const loadBundledPack = async (
+  context: BaseAudioContext,
+  baseUrl = `${process.env.PUBLIC_URL}/samples`
+): Promise<SamplePack | null> => {
+  let manifest: { name?: unknown; files?: unknown };
+  try {
+    const response = await fetch(`${baseUrl}/manifest.json`);
+    if (!response.ok) return null;
+    manifest = await response.json();
+  } catch (e) {
+    // Missing, or the dev server answered with the app's HTML instead
+    return null;
+  }
+  if (!Array.isArray(manifest.files)) return null;
+
+  const files = manifest.files.filter(
+    (file): file is string => typeof file === "string"
+  );
+  return decodeNamedSamples(
+    context,
+    typeof manifest.name === "string" ? manifest.name : "Bundled samples",
+    files.map((file) => ({
+      name: file,
+      load: async () => {
+        const response = await fetch(`${baseUrl}/${encodeURIComponent(file)}`);
+        if (!response.ok) throw new Error(`Could not load ${file}`);
+        return response.arrayBuffer();
+      },
+    }))
+  );
+};
@@ -0,0 +1,47 @@
+import { collectDueTicks, getPromptGrid, isPromptTick } from "./scheduler";
+
+test("collects the ticks inside the lookahead window without drift", () => {
+  expect(collectDueTicks(0, 1, 0.5, 0.9, 1.6)).toEqual([
+    { index: 0, time: 1 },
+    { index: 1, time: 1.5 },
+  ]);
+  expect(collectDueTicks(2, 1, 0.5, 1.5, 1.6)).toEqual([]);
+  expect(collectDueTicks(2, 1, 0.5, 2, 2.1)).toEqual([{ index: 2, time: 2 }]);
+
+  // Tick 10000 at 120 BPM lands exactly where it should
+  const [tick] = collectDueTicks(10000, 0, 0.5, 4999.9, 5000.01);
+  expect(tick).toEqual({ index: 10000, time: 5000 });
+});
+
+test("skips ticks that were missed while the timer was stalled", () => {
+  // Woken 1.2s late: ticks 2 to 4 are gone, the grid resumes at tick 5
+  expect(collectDueTicks(2, 1, 0.5, 3.2, 3.6)).toEqual([
+    { index: 5, time: 3.5 },
+  ]);
+});
+
+test("counts in and spaces prompts by whole bars in tempo mode", () => {
+  const tempo = getPromptGrid({
+    mode: "tempo",
+    bpm: 120,
+    barsPerPrompt: 2,
+    countIn: true,
+  });
+  expect(tempo).toEqual({
+    tickSeconds: 0.5,
+    ticksPerPrompt: 8,
+    countInTicks: 4,
+  });
+  const promptTicks = Array.from({ length: 21 }, (_, i) => i).filter((i) =>
+    isPromptTick(i, tempo)
+  );
+  expect(promptTicks).toEqual([4, 12, 20]);
+
+  const seconds = getPromptGrid({ mode: "seconds", seconds: 3 });
+  expect(seconds).toEqual({
+    tickSeconds: 3,
+    ticksPerPrompt: 1,
+    countInTicks: 0,
+  });
+  expect([0, 1, 2].every((i) => isPromptTick(i, seconds))).toBe(true);
+});
@@ -0,0 +1,121 @@
+// Lookahead scheduling on the audio clock: a coarse timer wakes up often and
+// books every tick that falls inside a short window ahead of the audio
+// clock, so timer jitter and throttling never reach the sound itself.
+
+export const LOOKAHEAD_MS = 25;
+export const SCHEDULE_AHEAD_SECONDS = 0.1;
+export const BEATS_PER_BAR = 4;
+
+export interface Tick {
+  index: number;
+  // Audio clock time the tick sounds at
+  time: number;
+}
+
+// Ticks from nextIndex onwards that start between now and the horizon.
+// Ticks already in the past (the timer stalled, or the tab was throttled)
+// are skipped rather than all sounding at once; the grid carries on from
+// the next tick still to come.
+export const collectDueTicks = (
+  nextIndex: number,
+  startTime: number,
+  tickSeconds: number,
+  now: number,
+  horizon: number
+): Tick[] => {
+  const ticks: Tick[] = [];
+  // Times are computed from the start rather than accumulated, so rounding
+  // never drifts over a long session
+  const firstIndex = Math.max(
+    nextIndex,
+    Math.ceil((now - startTime) / tickSeconds)
+  );
+  for (
+    let index = firstIndex;
+    startTime + index * tickSeconds < horizon;
+    index++
+  ) {
+    ticks.push({ index, time: startTime + index * tickSeconds });
+  }
+  return ticks;
+};
+
+export interface PromptGrid {
+  // A beat in tempo mode, a whole prompt in seconds mode
+  tickSeconds: number;
+  ticksPerPrompt: number;
+  // Ticks of count-in clicks before the first prompt
+  countInTicks: number;
+}
+
+export const getPromptGrid = (
+  timing:
+    | { mode: "seconds"; seconds: number }
+    | { mode: "tempo"; bpm: number; barsPerPrompt: number; countIn: boolean }
+): PromptGrid =>
+  timing.mode === "tempo"
+    ? {
+        tickSeconds: 60 / timing.bpm,
+        ticksPerPrompt: timing.barsPerPrompt * BEATS_PER_BAR,
+        countInTicks: timing.countIn ? BEATS_PER_BAR : 0,
+      }
+    : { tickSeconds: timing.seconds, ticksPerPrompt: 1, countInTicks: 0 };
+
+// Whether a tick of the grid starts a new prompt
+export const isPromptTick = (
+  index: number,
+  { ticksPerPrompt, countInTicks }: PromptGrid
+): boolean =>
+  index >= countInTicks && (index - countInTicks) % ticksPerPrompt === 0;
+
+export interface LookaheadScheduler {
+  stop: () => void;
+}
+
+export const startLookaheadScheduler = (
+  context: BaseAudioContext,
+  startTime: number,
+  tickSeconds: number,
+  onTick: (tick: Tick) => void
+): LookaheadScheduler => {
+  let nextIndex = 0;
+  const scheduleDueTicks = () => {
+    collectDueTicks(
+      nextIndex,
+      startTime,
+      tickSeconds,
+      context.currentTime,
+      context.currentTime + SCHEDULE_AHEAD_SECONDS
+    ).forEach((tick) => {
+      onTick(tick);
+      nextIndex = tick.index + 1;
+    });
+  };
+
+  scheduleDueTicks();
+  const timerId = window.setInterval(scheduleDueTicks, LOOKAHEAD_MS);
+  return { stop: () => clearInterval(timerId) };
+};
+
+// A short blip for the metronome, higher on the first beat of the bar
+export const scheduleClick = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  time: number,
+  accent: boolean,
+  level: number
+) => {
+  const osc = context.createOscillator();
+  osc.type = "square";
+  osc.frequency.setValueAtTime(accent ? 1760 : 1320, time);
+
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(level, time + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+
+  osc.connect(gain);
+  gain.connect(destination);
+  osc.start(time);
+  osc.stop(time + 0.06);
+};
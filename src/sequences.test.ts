@@ -0,0 +1,36 @@
+import { pickSequencePath } from "./sequences";
+
+// Cycles through fixed values so every choice is predictable
+const sequenceRandom = (values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+test("keeps every step inside the limits and the ladder", () => {
+  for (let run = 0; run < 50; run++) {
+    const path = pickSequencePath(9, {
+      length: 6,
+      minStep: 2,
+      maxStep: 3,
+      motion: "random",
+    });
+    expect(path).toHaveLength(6);
+    path.forEach((rung) => {
+      expect(rung).toBeGreaterThanOrEqual(0);
+      expect(rung).toBeLessThan(9);
+    });
+    path.slice(1).forEach((rung, i) => {
+      expect([2, 3]).toContain(Math.abs(rung - path[i]));
+    });
+  }
+});
+
+test("stepwise motion runs one way and turns at the end of the ladder", () => {
+  // Starts on rung 5 of 8 heading up, always taking the smallest step
+  const path = pickSequencePath(
+    8,
+    { length: 5, minStep: 1, maxStep: 2, motion: "stepwise" },
+    sequenceRandom([0.7, 0, 0, 0, 0, 0])
+  );
+  expect(path).toEqual([5, 6, 7, 6, 5]);
+});
@@ -0,0 +1,55 @@
+// Melodic sequences: a phrase of several degrees walked along a ladder of
+// rungs ordered from low to high, so step sizes are counted in degrees of
+// the pool rather than in semitones.
+
+export type SequenceMotion = "random" | "stepwise";
+
+export interface SequenceOptions {
+  length: number;
+  // Rungs moved between consecutive notes
+  minStep: number;
+  maxStep: number;
+  // "random" picks a direction for every step; "stepwise" keeps going the
+  // same way as a run and only turns around at the ends of the ladder
+  motion: SequenceMotion;
+}
+
+export const MIN_SEQUENCE_LENGTH = 2;
+export const MAX_SEQUENCE_LENGTH = 6;
+export const MAX_SEQUENCE_STEP = 4;
+
+// Indexes into a ladder of rungCount rungs, one per note of the sequence
+export const pickSequencePath = (
+  rungCount: number,
+  { length, minStep, maxStep, motion }: SequenceOptions,
+  random: () => number = Math.random
+): number[] => {
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const stepsFrom = (rung: number, direction: 1 | -1): number[] => {
+    const rungs: number[] = [];
+    for (let step = minStep; step <= maxStep; step++) {
+      const next = rung + step * direction;
+      if (next >= 0 && next < rungCount) {
+        rungs.push(next);
+      }
+    }
+    return rungs;
+  };
+
+  const path = [Math.floor(random() * rungCount)];
+  let direction: 1 | -1 = random() < 0.5 ? 1 : -1;
+  while (path.length < length) {
+    const rung = path[path.length - 1];
+    if (motion === "random") {
+      direction = random() < 0.5 ? 1 : -1;
+    }
+    let candidates = stepsFrom(rung, direction);
+    if (candidates.length === 0) {
+      direction = direction === 1 ? -1 : 1;
+      candidates = stepsFrom(rung, direction);
+    }
+    // A ladder too short for the step sizes repeats the note
+    path.push(candidates.length > 0 ? pick(candidates) : rung);
+  }
+  return path;
+};
@@ -0,0 +1,141 @@
+import {
+  BUILT_IN_TIMBRES,
+  BUILT_IN_TIMBRE_IDS,
+  createTimbreVoice,
+  getTimbreDefinition,
+  isValidTimbreDefinition,
+  isValidUserTimbre,
+  releaseDrone,
+  startDrone,
+} from "./timbres";
+
+test("accepts the built-in timbres and rejects malformed ones", () => {
+  BUILT_IN_TIMBRE_IDS.forEach((id) => {
+    expect(isValidTimbreDefinition(BUILT_IN_TIMBRES[id])).toBe(true);
+  });
+
+  const piano = BUILT_IN_TIMBRES.piano;
+  expect(isValidTimbreDefinition({ ...piano, partials: [] })).toBe(false);
+  expect(
+    isValidTimbreDefinition({
+      ...piano,
+      partials: [{ ratio: 1, waveform: "noise", level: 0.3 }],
+    })
+  ).toBe(false);
+  expect(
+    isValidTimbreDefinition({ ...piano, envelope: { attack: 0, decay: 2 } })
+  ).toBe(false);
+  expect(
+    isValidTimbreDefinition({
+      ...piano,
+      filter: { type: "lowpass", frequency: 5, q: 1 },
+    })
+  ).toBe(false);
+
+  expect(isValidUserTimbre({ ...piano, id: "user-abc" })).toBe(true);
+  expect(isValidUserTimbre({ ...piano, id: "piano" })).toBe(false);
+});
+
+// An audio context that records what is scheduled on it instead of playing
+const createRecordingContext = (currentTime = 0) => {
+  const calls: string[] = [];
+  const param = (name: string) => ({
+    value: 0,
+    setValueAtTime: (value: number, time: number) =>
+      calls.push(`${name} set ${value} @${time}`),
+    linearRampToValueAtTime: (value: number, time: number) =>
+      calls.push(`${name} linear ${value} @${time}`),
+    exponentialRampToValueAtTime: (value: number, time: number) =>
+      calls.push(`${name} exp ${value} @${time}`),
+    cancelScheduledValues: (time: number) =>
+      calls.push(`${name} cancel @${time}`),
+  });
+  const node = (name: string) => ({
+    connect: (target: { name: string }) =>
+      calls.push(`${name} -> ${target.name}`),
+  });
+  let count = 0;
+  const context = {
+    currentTime,
+    createBiquadFilter: () => ({
+      ...node("filter"),
+      name: "filter",
+      frequency: param("cutoff"),
+      Q: param("q"),
+    }),
+    createOscillator: () => {
+      const name = `osc${++count}`;
+      return {
+        ...node(name),
+        name,
+        frequency: param(`${name} freq`),
+        start: (time: number) => calls.push(`${name} start @${time}`),
+        stop: (time: number) => calls.push(`${name} stop @${time}`),
+      };
+    },
+    createGain: () => ({ ...node("gain"), name: "gain", gain: param("gain") }),
+  } as unknown as BaseAudioContext;
+  return { context, calls };
+};
+
+const MASTER = { name: "master" } as unknown as AudioNode;
+
+test("schedules one enveloped oscillator per partial through the filter", () => {
+  const { context, calls } = createRecordingContext();
+
+  const oscillators = createTimbreVoice(
+    context,
+    BUILT_IN_TIMBRES.synthesizer,
+    220,
+    MASTER,
+    1,
+    3
+  );
+
+  expect(oscillators).toHaveLength(4);
+  expect(calls).toContain("filter -> master");
+  expect(calls).toContain("cutoff set 2000 @1");
+  expect(calls).toContain("osc4 freq set 110 @1");
+  expect(calls).toContain("gain linear 0.15 @1.05");
+  expect(calls).toContain("gain exp 0.01 @4.05");
+  expect(calls).toContain("gain -> filter");
+  expect(calls).toContain("osc1 stop @3");
+});
+
+test("holds a drone at its partial levels until it is faded out", () => {
+  const { context, calls } = createRecordingContext(2);
+  const drone = startDrone(
+    context,
+    BUILT_IN_TIMBRES.synthesizer,
+    [110, 165],
+    MASTER,
+    0.4,
+    1.5
+  );
+
+  // Every partial of both notes, with nothing scheduled to stop or decay
+  expect(drone.oscillators).toHaveLength(8);
+  expect(calls).toContain("gain linear 0.4 @3.5");
+  expect(calls).toContain("gain set 0.15 @2");
+  expect(calls).toContain("osc5 freq set 165 @2");
+  expect(calls.some((call) => call.includes("stop"))).toBe(false);
+  expect(calls.some((call) => call.includes("exp"))).toBe(false);
+
+  releaseDrone(context, drone, 1.5);
+  expect(calls).toContain("gain cancel @2");
+  expect(calls).toContain("gain linear 0 @3.5");
+  expect(calls).toContain("osc8 stop @3.5");
+});
+
+test("falls back to the synthesizer for timbres it doesn't know", () => {
+  const userTimbre = {
+    ...BUILT_IN_TIMBRES.piano,
+    name: "Mine",
+    id: "user-abc" as const,
+  };
+  expect(getTimbreDefinition("guitar", [])).toBe(BUILT_IN_TIMBRES.guitar);
+  expect(getTimbreDefinition("user-abc", [userTimbre])).toBe(userTimbre);
+  expect(getTimbreDefinition("sampled", [userTimbre])).toBe(
+    BUILT_IN_TIMBRES.synthesizer
+  );
+});
@@ -0,0 +1,268 @@
+export type Waveform = "sine" | "square" | "sawtooth" | "triangle";
+export type TimbreFilterType = "lowpass" | "highpass" | "bandpass";
+
+export interface TimbrePartial {
+  // Frequency as a multiple of the chord note (0.5 is an octave below)
+  ratio: number;
+  waveform: Waveform;
+  // Peak gain, reached at the end of the attack
+  level: number;
+}
+
+export interface TimbreDefinition {
+  name: string;
+  partials: TimbrePartial[];
+  // Every partial ramps up over the attack, then decays exponentially
+  envelope: { attack: number; decay: number };
+  filter: { type: TimbreFilterType; frequency: number; q: number } | null;
+}
+
+export type BuiltInTimbreId = "piano" | "synthesizer" | "guitar";
+export type UserTimbreId = `user-${string}`;
+
+export interface UserTimbre extends TimbreDefinition {
+  id: UserTimbreId;
+}
+
+export const WAVEFORMS: Waveform[] = ["sine", "triangle", "square", "sawtooth"];
+export const TIMBRE_FILTER_TYPES: TimbreFilterType[] = [
+  "lowpass",
+  "highpass",
+  "bandpass",
+];
+export const MAX_PARTIALS = 8;
+
+// Gain the decay ends on; exponential ramps can't reach zero
+const DECAY_FLOOR = 0.01;
+
+export const BUILT_IN_TIMBRES: Record<BuiltInTimbreId, TimbreDefinition> = {
+  // Bell-like with a natural piano decay
+  piano: {
+    name: "A",
+    partials: [
+      { ratio: 1, waveform: "sine", level: 0.3 },
+      { ratio: 2, waveform: "sine", level: 0.08 },
+      { ratio: 4, waveform: "sine", level: 0.02 },
+    ],
+    envelope: { attack: 0.02, decay: 2.5 },
+    filter: null,
+  },
+  // Rich and full, with a sub-octave
+  synthesizer: {
+    name: "B",
+    partials: [
+      { ratio: 1, waveform: "sawtooth", level: 0.15 },
+      { ratio: 1, waveform: "square", level: 0.08 },
+      { ratio: 2, waveform: "sine", level: 0.12 },
+      { ratio: 0.5, waveform: "triangle", level: 0.1 },
+    ],
+    envelope: { attack: 0.05, decay: 3.0 },
+    filter: { type: "lowpass", frequency: 2000, q: 1 },
+  },
+  // Plucked string, slightly darkened
+  guitar: {
+    name: "C",
+    partials: [
+      { ratio: 1, waveform: "triangle", level: 0.25 },
+      { ratio: 2, waveform: "sine", level: 0.15 },
+      { ratio: 3, waveform: "sine", level: 0.08 },
+      { ratio: 5, waveform: "sine", level: 0.04 },
+    ],
+    envelope: { attack: 0.01, decay: 2.8 },
+    filter: { type: "lowpass", frequency: 3500, q: 0.7 },
+  },
+};
+
+export const BUILT_IN_TIMBRE_IDS: BuiltInTimbreId[] = [
+  "piano",
+  "synthesizer",
+  "guitar",
+];
+
+export const isBuiltInTimbreId = (value: string): value is BuiltInTimbreId =>
+  BUILT_IN_TIMBRE_IDS.includes(value as BuiltInTimbreId);
+
+export const isUserTimbreId = (value: string): value is UserTimbreId =>
+  value.startsWith("user-");
+
+export const createUserTimbreId = (): UserTimbreId =>
+  `user-${Date.now().toString(36)}`;
+
+const isValidPartial = (value: unknown): value is TimbrePartial => {
+  if (!value || typeof value !== "object") return false;
+  const { ratio, waveform, level } = value as Record<string, unknown>;
+  return (
+    typeof ratio === "number" &&
+    ratio > 0 &&
+    ratio <= 16 &&
+    WAVEFORMS.includes(waveform as Waveform) &&
+    typeof level === "number" &&
+    level > DECAY_FLOOR &&
+    level <= 1
+  );
+};
+
+export const isValidTimbreDefinition = (
+  value: unknown
+): value is TimbreDefinition => {
+  if (!value || typeof value !== "object") return false;
+  const { name, partials, envelope, filter } = value as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    !Array.isArray(partials) ||
+    partials.length === 0 ||
+    partials.length > MAX_PARTIALS ||
+    !partials.every(isValidPartial) ||
+    !envelope ||
+    typeof envelope !== "object"
+  ) {
+    return false;
+  }
+
+  const { attack, decay } = envelope as Record<string, unknown>;
+  if (
+    typeof attack !== "number" ||
+    attack <= 0 ||
+    attack > 2 ||
+    typeof decay !== "number" ||
+    decay <= 0 ||
+    decay > 10
+  ) {
+    return false;
+  }
+
+  if (filter === null) return true;
+  if (!filter || typeof filter !== "object") return false;
+  const { type, frequency, q } = filter as Record<string, unknown>;
+  return (
+    TIMBRE_FILTER_TYPES.includes(type as TimbreFilterType) &&
+    typeof frequency === "number" &&
+    frequency >= 20 &&
+    frequency <= 20000 &&
+    typeof q === "number" &&
+    q > 0 &&
+    q <= 30
+  );
+};
+
+export const isValidUserTimbre = (value: unknown): value is UserTimbre => {
+  if (!isValidTimbreDefinition(value)) return false;
+  const { id } = value as TimbreDefinition & { id?: unknown };
+  return typeof id === "string" && isUserTimbreId(id);
+};
+
+// Schedules one note of a timbre: an oscillator per partial, each through its
+// own envelope and then the shared filter. Returns the oscillators so the
+// caller can cut them off early.
+export const createTimbreVoice = (
+  context: BaseAudioContext,
+  { partials, envelope, filter }: TimbreDefinition,
+  frequency: number,
+  destination: AudioNode,
+  startTime: number,
+  stopTime: number
+): OscillatorNode[] => {
+  let output = destination;
+  if (filter) {
+    const filterNode = context.createBiquadFilter();
+    filterNode.type = filter.type;
+    filterNode.frequency.setValueAtTime(filter.frequency, startTime);
+    filterNode.Q.setValueAtTime(filter.q, startTime);
+    filterNode.connect(destination);
+    output = filterNode;
+  }
+
+  return partials.map(({ ratio, waveform, level }) => {
+    const osc = context.createOscillator();
+    osc.type = waveform;
+    osc.frequency.setValueAtTime(frequency * ratio, startTime);
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, startTime);
+    gain.gain.linearRampToValueAtTime(level, startTime + envelope.attack);
+    gain.gain.exponentialRampToValueAtTime(
+      DECAY_FLOOR,
+      startTime + envelope.attack + envelope.decay
+    );
+
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(startTime);
+    osc.stop(stopTime);
+    return osc;
+  });
+};
+
+// Unknown ids (the sampled timbre, a deleted user timbre) sound like the
+// synthesizer
+export const getTimbreDefinition = (
+  id: string,
+  userTimbres: UserTimbre[]
+): TimbreDefinition =>
+  isBuiltInTimbreId(id)
+    ? BUILT_IN_TIMBRES[id]
+    : (userTimbres.find((userTimbre) => userTimbre.id === id) ??
+      BUILT_IN_TIMBRES.synthesizer);
+
+export interface Drone {
+  gain: GainNode;
+  oscillators: OscillatorNode[];
+}
+
+// Holds a timbre's partials at their peak level instead of letting them
+// decay, fading in over fadeTime. The oscillators run until released, so
+// there is no loop point to hear.
+export const startDrone = (
+  context: BaseAudioContext,
+  { partials, filter }: TimbreDefinition,
+  frequencies: number[],
+  destination: AudioNode,
+  level: number,
+  fadeTime: number
+): Drone => {
+  const startTime = context.currentTime;
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, startTime);
+  gain.gain.linearRampToValueAtTime(level, startTime + fadeTime);
+  gain.connect(destination);
+
+  const oscillators = frequencies.flatMap((frequency) => {
+    let output: AudioNode = gain;
+    if (filter) {
+      const filterNode = context.createBiquadFilter();
+      filterNode.type = filter.type;
+      filterNode.frequency.setValueAtTime(filter.frequency, startTime);
+      filterNode.Q.setValueAtTime(filter.q, startTime);
+      filterNode.connect(gain);
+      output = filterNode;
+    }
+
+    return partials.map(({ ratio, waveform, level: partialLevel }) => {
+      const osc = context.createOscillator();
+      osc.type = waveform;
+      osc.frequency.setValueAtTime(frequency * ratio, startTime);
+      const partialGain = context.createGain();
+      partialGain.gain.setValueAtTime(partialLevel, startTime);
+      osc.connect(partialGain);
+      partialGain.connect(output);
+      osc.start(startTime);
+      return osc;
+    });
+  });
+
+  return { gain, oscillators };
+};
+
+// Fades a drone out over fadeTime and stops it; starting the next drone at
+// the same time crossfades between them
+export const releaseDrone = (
+  context: BaseAudioContext,
+  { gain, oscillators }: Drone,
+  fadeTime: number
+) => {
+  const now = context.currentTime;
+  gain.gain.cancelScheduledValues(now);
+  gain.gain.setValueAtTime(gain.gain.value, now);
+  gain.gain.linearRampToValueAtTime(0, now + fadeTime);
+  oscillators.forEach((osc) => osc.stop(now + fadeTime));
+};